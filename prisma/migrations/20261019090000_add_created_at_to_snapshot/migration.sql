@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Snapshot" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "Snapshot_marketId_createdAt_idx" ON "Snapshot"("marketId", "createdAt");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Listing" (
+    "id" SERIAL NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'rentcast',
+    "externalId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "address" TEXT,
+    "propertyType" TEXT,
+    "bucket" TEXT NOT NULL,
+    "price" DOUBLE PRECISION,
+    "beds" DOUBLE PRECISION,
+    "baths" DOUBLE PRECISION,
+    "sqft" INTEGER,
+    "status" TEXT NOT NULL,
+    "listedAt" TIMESTAMP(3),
+    "daysOnMarket" INTEGER,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Listing_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Listing_marketId_kind_status_idx" ON "Listing"("marketId", "kind", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Listing_provider_kind_externalId_key" ON "Listing"("provider", "kind", "externalId");
+
+-- AddForeignKey
+ALTER TABLE "Listing" ADD CONSTRAINT "Listing_marketId_fkey" FOREIGN KEY ("marketId") REFERENCES "Market"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "PropertyEstimate" (
+    "id" SERIAL NOT NULL,
+    "normalizedAddress" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "rent" DOUBLE PRECISION,
+    "rentLow" DOUBLE PRECISION,
+    "rentHigh" DOUBLE PRECISION,
+    "value" DOUBLE PRECISION,
+    "valueLow" DOUBLE PRECISION,
+    "valueHigh" DOUBLE PRECISION,
+    "rentComparables" JSONB,
+    "valueComparables" JSONB,
+    "fetchedAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PropertyEstimate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PropertyEstimate_normalizedAddress_key" ON "PropertyEstimate"("normalizedAddress");
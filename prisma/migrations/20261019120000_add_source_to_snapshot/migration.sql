@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Snapshot" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'rentcast';
+
+-- Backfill from sourceMeta.provider for snapshots written by the fixture provider
+UPDATE "Snapshot" SET "source" = 'fixture' WHERE "sourceMeta"->>'provider' = 'fixture';
+
+-- CreateIndex
+CREATE INDEX "Snapshot_marketId_source_asOf_idx" ON "Snapshot"("marketId", "source", "asOf");
@@ -0,0 +1,76 @@
+-- CreateTable
+CREATE TABLE "SeriesPoint" (
+    "id" SERIAL NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "propertyType" TEXT NOT NULL,
+    "metric" TEXT NOT NULL,
+    "month" DATE NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "snapshotId" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SeriesPoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeriesPoint_marketId_source_propertyType_metric_month_key" ON "SeriesPoint"("marketId", "source", "propertyType", "metric", "month");
+
+-- AddForeignKey
+ALTER TABLE "SeriesPoint" ADD CONSTRAINT "SeriesPoint_marketId_fkey" FOREIGN KEY ("marketId") REFERENCES "Market"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill from existing snapshots. Series come from:
+--   Snapshot.series                              -> propertyType 'all'
+--   sourceMeta.perType.<bucket>.series           -> propertyType <bucket>
+--   sourceMeta.tightnessSeries (Redfin)          -> propertyType 'all'
+--   sourceMeta.perType.<bucket>.tightnessSeries  -> propertyType <bucket>
+-- Every numeric field next to "date" becomes a metric. When several
+-- snapshots cover the same point, the most recently written one wins.
+WITH "segments" AS (
+    SELECT s."id", s."marketId", s."source", s."createdAt", 'all' AS "propertyType", s."series" AS "series"
+    FROM "Snapshot" s
+  UNION ALL
+    SELECT s."id", s."marketId", s."source", s."createdAt", 'all', s."sourceMeta"->'tightnessSeries'
+    FROM "Snapshot" s
+    WHERE s."sourceMeta" ? 'tightnessSeries'
+  UNION ALL
+    SELECT s."id", s."marketId", s."source", s."createdAt", t.key, t.value->'series'
+    FROM "Snapshot" s
+    CROSS JOIN LATERAL jsonb_each(s."sourceMeta"->'perType') t
+    WHERE jsonb_typeof(s."sourceMeta"->'perType') = 'object' AND jsonb_typeof(t.value) = 'object'
+  UNION ALL
+    SELECT s."id", s."marketId", s."source", s."createdAt", t.key, t.value->'tightnessSeries'
+    FROM "Snapshot" s
+    CROSS JOIN LATERAL jsonb_each(s."sourceMeta"->'perType') t
+    WHERE jsonb_typeof(s."sourceMeta"->'perType') = 'object' AND jsonb_typeof(t.value) = 'object'
+),
+"points" AS (
+    SELECT
+        seg."id",
+        seg."marketId",
+        seg."source",
+        seg."createdAt",
+        seg."propertyType",
+        m.key AS "metric",
+        date_trunc('month', ((p->>'date')::timestamptz AT TIME ZONE 'UTC'))::date AS "month",
+        (m.value #>> '{}')::double precision AS "value"
+    FROM "segments" seg
+    CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(seg."series") = 'array' THEN seg."series" ELSE '[]'::jsonb END
+    ) p
+    CROSS JOIN LATERAL jsonb_each(p) m
+    WHERE jsonb_typeof(p) = 'object'
+      AND p ? 'date'
+      AND m.key <> 'date'
+      AND jsonb_typeof(m.value) = 'number'
+)
+INSERT INTO "SeriesPoint" ("marketId", "source", "propertyType", "metric", "month", "value", "snapshotId", "updatedAt")
+SELECT DISTINCT ON ("marketId", "source", "propertyType", "metric", "month")
+    "marketId", "source", "propertyType", "metric", "month", "value", "id", CURRENT_TIMESTAMP
+FROM "points"
+ORDER BY "marketId", "source", "propertyType", "metric", "month", "createdAt" DESC, "id" DESC;
+
+-- The inline copies (Snapshot.series, sourceMeta tightnessSeries and
+-- perType series) are left in place so this can be rolled back and nothing
+-- the backfill missed is lost. New rows no longer write them; a separate
+-- migration clears the old ones once SeriesPoint is verified.
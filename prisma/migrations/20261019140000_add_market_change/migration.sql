@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "MarketChange" (
+    "id" SERIAL NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "propertyType" TEXT NOT NULL,
+    "kpi" TEXT NOT NULL,
+    "previous" DOUBLE PRECISION,
+    "current" DOUBLE PRECISION,
+    "delta" DOUBLE PRECISION,
+    "pctChange" DOUBLE PRECISION,
+    "snapshotId" INTEGER NOT NULL,
+    "previousSnapshotId" INTEGER NOT NULL,
+    "asOf" TIMESTAMP(3) NOT NULL,
+    "previousAsOf" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MarketChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketChange_marketId_createdAt_idx" ON "MarketChange"("marketId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MarketChange_snapshotId_idx" ON "MarketChange"("snapshotId");
+
+-- AddForeignKey
+ALTER TABLE "MarketChange" ADD CONSTRAINT "MarketChange_marketId_fkey" FOREIGN KEY ("marketId") REFERENCES "Market"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Snapshot" ADD COLUMN     "qualityIssues" JSONB,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'active';
+
+-- CreateIndex
+CREATE INDEX "Snapshot_status_createdAt_idx" ON "Snapshot"("status", "createdAt");
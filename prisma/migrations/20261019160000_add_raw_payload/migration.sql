@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Snapshot" ADD COLUMN     "rawPayloadId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RawPayload" (
+    "id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "marketId" TEXT,
+    "params" JSONB NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "body" JSONB NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "fetchCount" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "RawPayload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RawPayload_provider_endpoint_contentHash_key" ON "RawPayload"("provider", "endpoint", "contentHash");
+
+-- CreateIndex
+CREATE INDEX "RawPayload_marketId_fetchedAt_idx" ON "RawPayload"("marketId", "fetchedAt");
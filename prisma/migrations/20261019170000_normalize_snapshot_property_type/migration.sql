@@ -0,0 +1,8 @@
+-- Every stored snapshot is a whole-market aggregate (per-type numbers live in
+-- sourceMeta.perType), but routes wrote NULL, 'all' or the requested bucket.
+-- Normalize to 'all' so every reader and the refresh check see the same rows.
+UPDATE "Snapshot" SET "propertyType" = 'all' WHERE "propertyType" IS DISTINCT FROM 'all';
+
+-- AlterTable
+ALTER TABLE "Snapshot" ALTER COLUMN "propertyType" SET NOT NULL,
+ALTER COLUMN "propertyType" SET DEFAULT 'all';
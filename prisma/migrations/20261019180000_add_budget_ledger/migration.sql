@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "ProviderBudget" (
+    "provider" TEXT NOT NULL,
+    "limit" INTEGER NOT NULL,
+    "period" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProviderBudget_pkey" PRIMARY KEY ("provider")
+);
+
+-- CreateTable
+CREATE TABLE "BudgetCounter" (
+    "id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "used" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BudgetCounter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BudgetLedgerEntry" (
+    "id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "marketId" TEXT,
+    "route" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL DEFAULT 'pending',
+    "errorCode" TEXT,
+    "refunded" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "BudgetLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BudgetCounter_provider_period_key" ON "BudgetCounter"("provider", "period");
+
+-- CreateIndex
+CREATE INDEX "BudgetLedgerEntry_provider_createdAt_idx" ON "BudgetLedgerEntry"("provider", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BudgetLedgerEntry_marketId_createdAt_idx" ON "BudgetLedgerEntry"("marketId", "createdAt");
+
+-- Carry this month's (and past) counts over so the budget doesn't reset
+INSERT INTO "BudgetCounter" ("provider", "period", "used", "updatedAt")
+SELECT "provider", "year"::text || '-' || lpad("month"::text, 2, '0'), "calls", "updatedAt"
+FROM "ApiUsage";
+
+-- The older Usage counter only ever tracked RentCast; keep whichever count is higher
+INSERT INTO "BudgetCounter" ("provider", "period", "used", "updatedAt")
+SELECT 'rentcast', "period", "count", "updatedAt"
+FROM "Usage"
+ON CONFLICT ("provider", "period")
+DO UPDATE SET "used" = GREATEST("BudgetCounter"."used", EXCLUDED."used");
+
+-- DropTable
+DROP TABLE "ApiUsage";
+
+-- DropTable
+DROP TABLE "Usage";
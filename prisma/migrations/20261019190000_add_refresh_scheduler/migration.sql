@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Market" ADD COLUMN     "lastViewedAt" TIMESTAMP(3),
+ADD COLUMN     "viewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "RefreshRun" (
+    "id" SERIAL NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "budgets" JSONB NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RefreshRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RefreshRunItem" (
+    "id" SERIAL NOT NULL,
+    "runId" INTEGER NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "staleness" DOUBLE PRECISION,
+    "viewCount" INTEGER NOT NULL,
+    "volatility" DOUBLE PRECISION,
+    "decision" TEXT NOT NULL,
+    "outcome" TEXT,
+    "errorCode" TEXT,
+    "snapshotId" INTEGER,
+    "executedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RefreshRunItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RefreshRunItem_runId_rank_idx" ON "RefreshRunItem"("runId", "rank");
+
+-- CreateIndex
+CREATE INDEX "RefreshRunItem_marketId_executedAt_idx" ON "RefreshRunItem"("marketId", "executedAt");
+
+-- AddForeignKey
+ALTER TABLE "RefreshRunItem" ADD CONSTRAINT "RefreshRunItem_runId_fkey" FOREIGN KEY ("runId") REFERENCES "RefreshRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Job" (
+    "id" SERIAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dedupeKey" TEXT,
+    "lockedBy" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "lastErrorCode" TEXT,
+    "result" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Job_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Job_status_runAt_idx" ON "Job"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "Job_type_createdAt_idx" ON "Job"("type", "createdAt");
+
+-- Partial unique index (not expressible in schema.prisma): one pending job
+-- per dedupeKey; enqueueJob relies on it via ON CONFLICT
+CREATE UNIQUE INDEX "Job_dedupeKey_pending_key" ON "Job"("dedupeKey") WHERE "status" IN ('queued', 'running');
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "Schedule" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "jobType" TEXT NOT NULL,
+    "payload" JSONB NOT NULL DEFAULT '{}',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastJobId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Schedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Schedule_name_key" ON "Schedule"("name");
+
+-- CreateIndex
+CREATE INDEX "Schedule_enabled_nextRunAt_idx" ON "Schedule"("enabled", "nextRunAt");
+
+-- Default schedules (UTC); nextRunAt is filled in by the first tick.
+-- Compaction deletes snapshots, so it's opt-in: enable it once the
+-- retention policy has been checked with a dry run
+INSERT INTO "Schedule" ("name", "cron", "jobType", "payload", "enabled", "updatedAt") VALUES
+    ('nightly-refresh', '0 3 * * *', 'refresh.scheduler', '{}', true, CURRENT_TIMESTAMP),
+    ('weekly-digest', '0 8 * * 1', 'market.digest', '{"days":7}', true, CURRENT_TIMESTAMP),
+    ('monthly-compaction', '0 4 1 * *', 'snapshots.retention', '{}', false, CURRENT_TIMESTAMP);
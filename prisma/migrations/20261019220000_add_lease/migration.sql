@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "Lease" (
+    "key" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Lease_pkey" PRIMARY KEY ("key")
+);
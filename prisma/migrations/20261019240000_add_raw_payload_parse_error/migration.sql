@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RawPayload" ADD COLUMN "parseError" TEXT;
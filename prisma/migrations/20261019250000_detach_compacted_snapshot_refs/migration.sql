@@ -0,0 +1,16 @@
+-- AlterTable: retention nulls these when it deletes the snapshot they name
+ALTER TABLE "MarketChange" ALTER COLUMN "snapshotId" DROP NOT NULL,
+ALTER COLUMN "previousSnapshotId" DROP NOT NULL;
+
+-- Rows already pointing at snapshots compaction deleted
+UPDATE "MarketChange" SET "snapshotId" = NULL
+WHERE "snapshotId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "Snapshot" s WHERE s."id" = "MarketChange"."snapshotId");
+
+UPDATE "MarketChange" SET "previousSnapshotId" = NULL
+WHERE "previousSnapshotId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "Snapshot" s WHERE s."id" = "MarketChange"."previousSnapshotId");
+
+UPDATE "RefreshRunItem" SET "snapshotId" = NULL
+WHERE "snapshotId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "Snapshot" s WHERE s."id" = "RefreshRunItem"."snapshotId");
@@ -0,0 +1,41 @@
+// scripts/import-redfin.ts
+//
+// Usage:
+//   npm run import:redfin -- --file zip_code_market_tracker.tsv000.gz [--zip 18504,11368]
+import { parseArgs } from "node:util";
+import { prisma } from "@/lib/prisma";
+import { importRedfinTracker } from "@/lib/redfinImport";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      file: { type: "string" },
+      zip: { type: "string" },
+    },
+  });
+
+  if (!values.file) {
+    throw new Error("--file <zip_code_market_tracker.tsv000.gz> is required");
+  }
+
+  const result = await importRedfinTracker({
+    file: values.file,
+    zips: values.zip?.split(",").map((z) => z.trim()).filter(Boolean),
+  });
+
+  console.log(
+    `Redfin import ✅ created ${result.created.length}, updated ${result.updated.length}`
+  );
+  if (result.missing.length) {
+    console.log(`No Redfin rows for: ${result.missing.join(", ")}`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("Redfin import error ❌", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,39 @@
+// scripts/import-zillow.ts
+//
+// Usage:
+//   npm run import:zillow -- --zhvi Zip_zhvi_....csv --zori Zip_zori_....csv [--zip 18504,11368]
+import { parseArgs } from "node:util";
+import { prisma } from "@/lib/prisma";
+import { importZillowIndexes } from "@/lib/zillowImport";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      zhvi: { type: "string" },
+      zori: { type: "string" },
+      zip: { type: "string" },
+    },
+  });
+
+  const result = await importZillowIndexes({
+    zhviFile: values.zhvi,
+    zoriFile: values.zori,
+    zips: values.zip?.split(",").map((z) => z.trim()).filter(Boolean),
+  });
+
+  console.log(
+    `Zillow import ✅ created ${result.created.length}, updated ${result.updated.length}`
+  );
+  if (result.missing.length) {
+    console.log(`No Zillow rows for: ${result.missing.join(", ")}`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("Zillow import error ❌", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,44 @@
+// scripts/prune-snapshots.ts
+//
+// Usage:
+//   npm run prune:snapshots -- [--apply] [--market zip:18504]
+// Without --apply this is a dry run that only reports what would be deleted.
+import { parseArgs } from "node:util";
+import { prisma } from "@/lib/prisma";
+import { runSnapshotRetention } from "@/lib/snapshotRetention";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      apply: { type: "boolean", default: false },
+      market: { type: "string" },
+    },
+  });
+
+  const report = await runSnapshotRetention({
+    dryRun: !values.apply,
+    marketId: values.market,
+  });
+
+  for (const [marketId, entry] of Object.entries(report.markets)) {
+    if (entry.deleted.length === 0) continue;
+    console.log(
+      `${marketId}: keep ${entry.kept}, delete ${entry.deleted.length} (${entry.deleted
+        .map((d) => `#${d.id} ${d.source} ${d.asOf.slice(0, 10)}`)
+        .join(", ")})`
+    );
+  }
+
+  console.log(
+    `Snapshot retention ${report.dryRun ? "(dry run) " : ""}✅ scanned ${report.scanned}, kept ${report.kept}, ${report.dryRun ? "would delete" : "deleted"} ${report.deleted}`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("Snapshot retention error ❌", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
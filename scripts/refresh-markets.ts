@@ -0,0 +1,47 @@
+// scripts/refresh-markets.ts
+//
+// Usage:
+//   npm run refresh:markets -- [--dry-run]
+// Ranks visible markets and refreshes the due ones the provider budget can
+// afford; --dry-run records the plan without calling any provider.
+import { parseArgs } from "node:util";
+import { prisma } from "@/lib/prisma";
+import { runRefreshScheduler } from "@/lib/refreshScheduler";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const report = await runRefreshScheduler({
+    dryRun: values["dry-run"],
+    trigger: "script",
+  });
+
+  for (const [provider, budget] of Object.entries(report.budgets)) {
+    console.log(
+      `${provider}: ${budget.remaining} calls left, ${budget.affordable} affordable`
+    );
+  }
+
+  for (const item of report.items) {
+    console.log(
+      `#${item.rank} ${item.marketId} score ${item.score} → ${item.decision}${item.outcome ? ` (${item.outcome}${item.errorCode ? ` ${item.errorCode}` : ""})` : ""}`
+    );
+  }
+
+  console.log(
+    `Refresh run #${report.runId} ${report.dryRun ? "(dry run) " : ""}✅ planned ${report.planned}, refreshed ${report.refreshed}`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("Refresh scheduler error ❌", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,43 @@
+// scripts/reprocess-snapshots.ts
+//
+// Usage:
+//   npm run reprocess:snapshots -- [--market zip:18504] [--dry-run]
+// Rebuilds snapshots from archived RawPayload rows (and builds them for
+// payloads that failed parsing when fetched); makes no provider calls.
+import { parseArgs } from "node:util";
+import { prisma } from "@/lib/prisma";
+import { reprocessSnapshots } from "@/lib/reprocessSnapshots";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      market: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const result = await reprocessSnapshots({
+    dryRun: values["dry-run"] ?? false,
+    marketId: values.market,
+  });
+
+  console.log(
+    `Reprocess ${result.dryRun ? "(dry run) " : ""}✅ ${result.dryRun ? "would rebuild" : "rebuilt"} ${result.rebuilt.length}, unchanged ${result.unchanged.length}, recovered ${result.recovered.length}, failed ${result.failed.length}`
+  );
+  for (const f of result.failed) {
+    const what =
+      f.snapshotId != null
+        ? `snapshot #${f.snapshotId}`
+        : `payload #${f.rawPayloadId}`;
+    console.log(`  ${what}: ${f.error}`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("Reprocess error ❌", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
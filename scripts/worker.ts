@@ -0,0 +1,44 @@
+// scripts/worker.ts
+//
+// Usage:
+//   npm run worker -- [--once]
+// Runs queued jobs (refreshes, imports, retention) until SIGINT/SIGTERM;
+// --once drains the queue and exits. Start as many as you like.
+import os from "node:os";
+import { parseArgs } from "node:util";
+import { runWorker } from "@/lib/jobWorker";
+import { prisma } from "@/lib/prisma";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      once: { type: "boolean", default: false },
+    },
+  });
+
+  const workerId = `${os.hostname()}:${process.pid}`;
+  const controller = new AbortController();
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      console.log(`Worker ${workerId} stopping after the current job…`);
+      controller.abort();
+    });
+  }
+
+  console.log(`Worker ${workerId} started`);
+  const processed = await runWorker({
+    workerId,
+    signal: controller.signal,
+    once: values.once,
+  });
+  console.log(`Worker ${workerId} ✅ processed ${processed} jobs`);
+}
+
+main()
+  .catch((e) => {
+    console.error("Worker error ❌", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
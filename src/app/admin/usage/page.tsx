@@ -0,0 +1,181 @@
+// src/app/admin/usage/page.tsx
+import Link from "next/link";
+import { getUsageReport } from "@/lib/usageReport";
+
+// Reads the ledger on every request; nothing to prerender
+export const dynamic = "force-dynamic";
+
+type BreakdownRow = { label: string; calls: number; refunded: number };
+
+function Panel({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="border border-white/15 bg-white/5 p-5">
+      <div className="text-xs tracking-[0.3em] uppercase text-white/60">
+        {title}
+      </div>
+      <div className="mt-4">{children}</div>
+    </section>
+  );
+}
+
+function Breakdown({ rows }: { rows: BreakdownRow[] }) {
+  if (rows.length === 0) {
+    return <div className="text-[11px] text-white/55">No calls.</div>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-[11px] uppercase tracking-wider text-white/55">
+          <th className="pb-2 font-normal"></th>
+          <th className="pb-2 font-normal text-right">Calls</th>
+          <th className="pb-2 font-normal text-right">Refunded</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.label} className="border-t border-white/10">
+            <td className="py-2 font-mono text-white/80">{row.label}</td>
+            <td className="py-2 text-right">{row.calls}</td>
+            <td className="py-2 text-right text-white/60">{row.refunded}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default async function AdminUsagePage() {
+  const report = await getUsageReport("rentcast");
+  const { policy, forecast } = report;
+
+  const pct = (n: number) =>
+    `${Math.min(100, Math.round((n / Math.max(1, policy.limit)) * 100))}%`;
+  const maxUsed = Math.max(
+    1,
+    policy.limit,
+    ...report.history.map((h) => h.used)
+  );
+
+  return (
+    <div className="min-h-screen bg-[#0B0B0F] text-white">
+      <div className="max-w-5xl mx-auto px-4 py-10 sm:py-14 space-y-8">
+        <header className="space-y-2">
+          <div className="text-xs tracking-[0.3em] uppercase text-white/60">
+            Admin ·{" "}
+            <Link href="/" className="hover:text-white">
+              Dashboard
+            </Link>
+          </div>
+          <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight">
+            RentCast usage
+          </h1>
+          <p className="text-[11px] text-white/55">
+            Period{" "}
+            <span className="font-mono text-white/80">{report.period}</span> ·
+            limit {policy.limit} calls per {policy.period} (UTC)
+          </p>
+        </header>
+
+        {forecast.overLimit && (
+          <div className="border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+            Projected to use {forecast.projected} of {policy.limit} calls by{" "}
+            {forecast.periodEnd.toISOString().slice(0, 10)}. Raise TTLs or hide
+            markets to stay within the quota.
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Panel title="This period">
+            <div className="text-3xl font-semibold">
+              {report.used}
+              <span className="text-base text-white/55"> / {policy.limit}</span>
+            </div>
+            <div className="mt-3 h-1.5 bg-white/10">
+              <div
+                className="h-full bg-white/70"
+                style={{ width: pct(report.used) }}
+              />
+            </div>
+            <div className="mt-2 text-[11px] text-white/55">
+              {report.remaining} remaining
+            </div>
+          </Panel>
+
+          <Panel title="Projected">
+            <div
+              className={`text-3xl font-semibold ${
+                forecast.overLimit ? "text-amber-200" : ""
+              }`}
+            >
+              {forecast.projected}
+              <span className="text-base text-white/55"> / {policy.limit}</span>
+            </div>
+            <div className="mt-3 space-y-1 text-[11px] text-white/55">
+              <div>
+                {forecast.scheduledRefreshes} scheduled refreshes over{" "}
+                {forecast.refreshRuns} scheduler runs ({forecast.markets.length}{" "}
+                markets)
+              </div>
+              <div>
+                {forecast.unscheduledCalls} listing / estimate calls at the
+                current rate
+              </div>
+            </div>
+          </Panel>
+        </div>
+
+        <Panel title="History">
+          {report.history.length === 0 ? (
+            <div className="text-[11px] text-white/55">No calls yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {report.history.map((h) => (
+                <div key={h.period} className="flex items-center gap-3 text-sm">
+                  <div className="w-24 font-mono text-white/70">{h.period}</div>
+                  <div className="flex-1 h-1.5 bg-white/10">
+                    <div
+                      className="h-full bg-white/50"
+                      style={{ width: `${(h.used / maxUsed) * 100}%` }}
+                    />
+                  </div>
+                  <div className="w-12 text-right">{h.used}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Panel>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Panel title="By market">
+            <Breakdown
+              rows={report.byMarket.map((r) => ({
+                label: r.marketId ?? "(address)",
+                ...r,
+              }))}
+            />
+          </Panel>
+
+          <div className="space-y-4">
+            <Panel title="By outcome">
+              <Breakdown
+                rows={report.byOutcome.map((r) => ({ label: r.outcome, ...r }))}
+              />
+            </Panel>
+            <Panel title="By route">
+              <Breakdown
+                rows={report.byRoute.map((r) => ({ label: r.route, ...r }))}
+              />
+            </Panel>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+// src/app/api/v1/admin/digest/route.ts
+import { NextResponse } from "next/server";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { findLatestMarketDigest } from "@/lib/marketDigest";
+
+// GET /api/v1/admin/digest
+// The latest market digest (weekly-digest schedule or a market.digest job)
+export async function GET() {
+  try {
+    const latest = await findLatestMarketDigest();
+    if (!latest) {
+      throw makeHttpError("No digest has run yet", 404, "DIGEST_NOT_FOUND");
+    }
+    return NextResponse.json({ ok: true, ...latest });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -0,0 +1,33 @@
+// src/app/api/v1/admin/jobs/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { retryJob } from "@/lib/jobs";
+
+type RetryBody = { action?: string };
+
+// POST /api/v1/admin/jobs/:id  body: { "action": "retry" }
+// Re-queue a dead-lettered job with a fresh set of attempts
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const jobId = Number(id);
+    if (!Number.isInteger(jobId)) {
+      throw makeHttpError("Job id must be an integer", 400, "INVALID_ID");
+    }
+
+    const body = (await req.json().catch(() => ({}))) as RetryBody;
+    if (body.action !== "retry") {
+      throw makeHttpError('action must be "retry"', 400, "INVALID_ACTION");
+    }
+
+    const job = await retryJob(jobId);
+
+    return NextResponse.json({ ok: true, job });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
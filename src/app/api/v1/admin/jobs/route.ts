@@ -0,0 +1,68 @@
+// src/app/api/v1/admin/jobs/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import {
+  enqueueJob,
+  isJobType,
+  JOB_STATUSES,
+  singletonJobKey,
+  type JobPayloadInput,
+  type JobType,
+} from "@/lib/jobs";
+
+type EnqueueBody = { type?: string; payload?: unknown };
+
+// GET /api/v1/admin/jobs?status=dead&type=import.redfin
+// Most recent jobs first; status=dead is the dead-letter queue
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status") ?? undefined;
+    if (status && !(JOB_STATUSES as readonly string[]).includes(status)) {
+      throw makeHttpError(`Unknown status "${status}"`, 400, "INVALID_STATUS");
+    }
+    const type = searchParams.get("type") ?? undefined;
+
+    const jobs = await prisma.job.findMany({
+      where: { status, type },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+    });
+
+    return NextResponse.json({ ok: true, jobs });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
+
+// POST /api/v1/admin/jobs
+// Body: { type: "import.redfin", payload: { file: "/data/zip_tracker.tsv000.gz" } }
+// File paths are read by the worker, so they must exist on its machine
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as EnqueueBody;
+
+    const type = body.type ?? "";
+    if (!isJobType(type)) {
+      throw makeHttpError(
+        `Unknown job type "${type}"`,
+        400,
+        "UNKNOWN_JOB_TYPE"
+      );
+    }
+
+    // enqueueJob validates the payload against the type's schema; singleton
+    // types coalesce with the same run queued by a route or a schedule
+    const payload = (body.payload ?? {}) as JobPayloadInput<JobType>;
+    const job = await enqueueJob(type, payload, {
+      dedupeKey: singletonJobKey(type, payload),
+    });
+
+    return NextResponse.json({ ok: true, job }, { status: 202 });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
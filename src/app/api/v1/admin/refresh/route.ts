@@ -0,0 +1,61 @@
+// src/app/api/v1/admin/refresh/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { runIfNoWorker } from "@/lib/inlineJobs";
+import { enqueueJob, singletonJobKey } from "@/lib/jobs";
+import { runRefreshScheduler } from "@/lib/refreshScheduler";
+
+// GET /api/v1/admin/refresh?limit=10
+// Recent scheduler runs, newest first, with every ranked market
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = Number(searchParams.get("limit") ?? 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw makeHttpError(
+        "limit must be an integer between 1 and 100",
+        400,
+        "INVALID_PARAM"
+      );
+    }
+
+    const runs = await prisma.refreshRun.findMany({
+      orderBy: { startedAt: "desc" },
+      take: limit,
+      include: { items: { orderBy: { rank: "asc" } } },
+    });
+
+    return NextResponse.json({ ok: true, runs });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
+
+// POST /api/v1/admin/refresh?dryRun=true
+// Rank visible markets and refresh the due ones the budget can afford. The
+// run itself is a job (202, poll /api/v1/jobs/:id); dryRun=true plans inline.
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const dryRun = searchParams.get("dryRun") === "true";
+
+    if (dryRun) {
+      const report = await runRefreshScheduler({ dryRun, trigger: "admin" });
+      return NextResponse.json({ ok: true, ...report });
+    }
+
+    const job = await enqueueJob(
+      "refresh.scheduler",
+      {},
+      { dedupeKey: singletonJobKey("refresh.scheduler", {}) }
+    );
+    await runIfNoWorker(job);
+
+    return NextResponse.json({ ok: true, job }, { status: 202 });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -0,0 +1,48 @@
+// src/app/api/v1/admin/schedules/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { updateSchedule } from "@/lib/schedules";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function parseScheduleId(context: RouteContext) {
+  const { id } = await context.params;
+  const scheduleId = Number(id);
+  if (!Number.isInteger(scheduleId)) {
+    throw makeHttpError("Schedule id must be an integer", 400, "INVALID_ID");
+  }
+  return scheduleId;
+}
+
+// PATCH /api/v1/admin/schedules/:id
+// Body: any of { cron, jobType, payload, enabled }; nextRunAt is recomputed
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  try {
+    const id = await parseScheduleId(context);
+    const body = await req.json().catch(() => ({}));
+    const schedule = await updateSchedule(id, body);
+
+    return NextResponse.json({ ok: true, schedule });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
+
+// DELETE /api/v1/admin/schedules/:id
+// Jobs it already queued are left alone
+export async function DELETE(_req: NextRequest, context: RouteContext) {
+  try {
+    const id = await parseScheduleId(context);
+    const deleted = await prisma.schedule.deleteMany({ where: { id } });
+    if (deleted.count === 0) {
+      throw makeHttpError("Schedule not found", 404, "SCHEDULE_NOT_FOUND");
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
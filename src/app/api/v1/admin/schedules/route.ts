@@ -0,0 +1,34 @@
+// src/app/api/v1/admin/schedules/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { httpErrorResponse } from "@/lib/httpError";
+import { createSchedule } from "@/lib/schedules";
+
+// GET /api/v1/admin/schedules
+// Every recurring job with its cron (UTC), next and last run
+export async function GET() {
+  try {
+    const schedules = await prisma.schedule.findMany({
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ ok: true, schedules });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
+
+// POST /api/v1/admin/schedules
+// Body: { name: "nightly-refresh", cron: "0 3 * * *", jobType: "refresh.scheduler", payload?: {}, enabled?: true }
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const schedule = await createSchedule(body);
+
+    return NextResponse.json({ ok: true, schedule }, { status: 201 });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -0,0 +1,46 @@
+// src/app/api/v1/admin/snapshots/quarantine/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { reviewQuarantinedSnapshot } from "@/lib/snapshotQuality";
+
+type ReviewBody = { action?: string };
+
+// POST /api/v1/admin/snapshots/quarantine/:id  { "action": "approve" | "reject" }
+// Approve publishes the snapshot (series + change log); reject keeps it hidden
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const snapshotId = Number(id);
+    if (!Number.isInteger(snapshotId)) {
+      throw makeHttpError("Snapshot id must be an integer", 400, "INVALID_ID");
+    }
+
+    const body = (await req.json().catch(() => ({}))) as ReviewBody;
+    if (body.action !== "approve" && body.action !== "reject") {
+      throw makeHttpError(
+        'action must be "approve" or "reject"',
+        400,
+        "INVALID_ACTION"
+      );
+    }
+
+    const snapshot = await reviewQuarantinedSnapshot(snapshotId, body.action);
+
+    return NextResponse.json({
+      ok: true,
+      snapshot: {
+        id: snapshot.id,
+        marketId: snapshot.marketId,
+        source: snapshot.source,
+        status: snapshot.status,
+        reviewedAt: snapshot.reviewedAt,
+      },
+    });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/v1/admin/snapshots/quarantine/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { SNAPSHOT_STATUSES } from "@/domain/quality";
+
+// GET /api/v1/admin/snapshots/quarantine?status=quarantined&marketId=zip:18504
+// Review queue: snapshots held back by the ingest quality checks, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status") ?? "quarantined";
+    if (!(SNAPSHOT_STATUSES as readonly string[]).includes(status)) {
+      throw makeHttpError(`Unknown status "${status}"`, 400, "INVALID_STATUS");
+    }
+    const marketId = searchParams.get("marketId") ?? undefined;
+
+    const snapshots = await prisma.snapshot.findMany({
+      where: { status, marketId },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+      select: {
+        id: true,
+        marketId: true,
+        source: true,
+        propertyType: true,
+        asOf: true,
+        createdAt: true,
+        kpis: true,
+        status: true,
+        qualityIssues: true,
+        reviewedAt: true,
+      },
+    });
+
+    return NextResponse.json({ ok: true, snapshots });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -0,0 +1,33 @@
+// src/app/api/v1/admin/snapshots/retention/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { httpErrorResponse } from "@/lib/httpError";
+import { runIfNoWorker } from "@/lib/inlineJobs";
+import { enqueueJob, singletonJobKey } from "@/lib/jobs";
+import { runSnapshotRetention } from "@/lib/snapshotRetention";
+
+// POST /api/v1/admin/snapshots/retention?dryRun=false&marketId=zip:18504
+// Dry run unless dryRun=false: reports what the retention policy would delete.
+// The real compaction runs as a job (202, poll /api/v1/jobs/:id).
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const dryRun = searchParams.get("dryRun") !== "false";
+    const marketId = searchParams.get("marketId") ?? undefined;
+
+    if (dryRun) {
+      const report = await runSnapshotRetention({ dryRun, marketId });
+      return NextResponse.json({ ok: true, ...report });
+    }
+
+    const payload = { dryRun, marketId };
+    const job = await enqueueJob("snapshots.retention", payload, {
+      dedupeKey: singletonJobKey("snapshots.retention", payload),
+    });
+    await runIfNoWorker(job);
+
+    return NextResponse.json({ ok: true, job }, { status: 202 });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -0,0 +1,50 @@
+// src/app/api/v1/admin/usage/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { getUsageReport } from "@/lib/usageReport";
+import { findMarketDataProvider } from "@/providers/registry";
+
+// GET /api/v1/admin/usage?provider=rentcast&period=2026-09&history=12
+// Budget used this period, per-period history, where the calls went and a
+// projected end-of-period burn
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const provider = searchParams.get("provider") ?? "rentcast";
+    if (!findMarketDataProvider(provider)?.metered) {
+      throw makeHttpError(
+        `No metered provider "${provider}"`,
+        404,
+        "UNKNOWN_PROVIDER"
+      );
+    }
+
+    const period = searchParams.get("period") ?? undefined;
+    if (period && !/^\d{4}-\d{2}(-\d{2})?$/.test(period)) {
+      throw makeHttpError(
+        "period must be YYYY-MM or YYYY-MM-DD",
+        400,
+        "INVALID_PARAM"
+      );
+    }
+
+    const history = Number(searchParams.get("history") ?? 12);
+    if (!Number.isInteger(history) || history < 1 || history > 60) {
+      throw makeHttpError(
+        "history must be an integer between 1 and 60",
+        400,
+        "INVALID_PARAM"
+      );
+    }
+
+    const report = await getUsageReport(provider, {
+      period,
+      historyLimit: history,
+    });
+
+    return NextResponse.json({ ok: true, ...report });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -0,0 +1,46 @@
+// src/app/api/v1/estimate/route.ts
+import { NextResponse } from "next/server";
+import { httpErrorResponse } from "@/lib/httpError";
+import { getPropertyEstimate } from "@/lib/estimates";
+
+// GET /api/v1/estimate?address=123 Main St, Scranton, PA 18504[&refresh=1]
+// Property-level rent + value estimate with comparables (cached by address)
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const address = (searchParams.get("address") ?? "").trim();
+  const refresh = searchParams.get("refresh") === "1";
+
+  if (address.length < 5) {
+    return NextResponse.json(
+      { error: "address is required", code: "INVALID_ADDRESS" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { estimate, cached } = await getPropertyEstimate(address, { refresh });
+
+    return NextResponse.json({
+      cached,
+      estimate: {
+        address: estimate.address,
+        fetchedAt: estimate.fetchedAt,
+        rent: {
+          estimate: estimate.rent,
+          low: estimate.rentLow,
+          high: estimate.rentHigh,
+          comparables: estimate.rentComparables,
+        },
+        value: {
+          estimate: estimate.value,
+          low: estimate.valueLow,
+          high: estimate.valueHigh,
+          comparables: estimate.valueComparables,
+        },
+      },
+    });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
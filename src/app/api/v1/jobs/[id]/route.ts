@@ -0,0 +1,42 @@
+// src/app/api/v1/jobs/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+
+// GET /api/v1/jobs/:id
+// Status of a background job, for clients polling after a 202
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const jobId = Number(id);
+    if (!Number.isInteger(jobId)) {
+      throw makeHttpError("Job id must be an integer", 400, "INVALID_ID");
+    }
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        runAt: true,
+        lastError: true,
+        lastErrorCode: true,
+        result: true,
+        createdAt: true,
+        finishedAt: true,
+      },
+    });
+    if (!job) throw makeHttpError("Job not found", 404, "JOB_NOT_FOUND");
+
+    return NextResponse.json({ ok: true, job });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
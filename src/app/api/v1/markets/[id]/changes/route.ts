@@ -0,0 +1,102 @@
+// src/app/api/v1/markets/[id]/changes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { DIFFED_KPIS } from "@/domain/snapshotDiff";
+import {
+  INDEX_SOURCES,
+  MARKET_DATA_PROVIDER_IDS,
+  PROPERTY_TYPE_BUCKETS,
+} from "@/providers/types";
+
+const SOURCES: string[] = [...MARKET_DATA_PROVIDER_IDS, ...INDEX_SOURCES];
+const PROPERTY_TYPES: string[] = ["all", ...PROPERTY_TYPE_BUCKETS];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+function parseNumber(value: string | null, param: string): number | undefined {
+  if (value == null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) {
+    throw makeHttpError(
+      `${param} must be a non-negative number`,
+      400,
+      "INVALID_PARAM"
+    );
+  }
+  return n;
+}
+
+// GET /api/v1/markets/:id/changes?since=2025-01-01&kpi=medianRent&propertyType=sfh&source=rentcast&minPct=0.05&limit=50
+// Newest first; minPct keeps changes whose |pctChange| is at least that (0.05 = 5%)
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { searchParams } = new URL(req.url);
+
+    const kpi = searchParams.get("kpi");
+    if (kpi && !(DIFFED_KPIS as readonly string[]).includes(kpi)) {
+      throw makeHttpError(
+        `Unknown kpi "${kpi}" (expected ${DIFFED_KPIS.join(", ")})`,
+        400,
+        "INVALID_KPI"
+      );
+    }
+
+    const propertyType = searchParams.get("propertyType");
+    if (propertyType && !PROPERTY_TYPES.includes(propertyType)) {
+      throw makeHttpError(
+        `Unknown propertyType "${propertyType}"`,
+        400,
+        "INVALID_PROPERTY_TYPE"
+      );
+    }
+
+    const source = searchParams.get("source");
+    if (source && !SOURCES.includes(source)) {
+      throw makeHttpError(`Unknown source "${source}"`, 400, "INVALID_SOURCE");
+    }
+
+    const sinceParam = searchParams.get("since");
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+    if (since && Number.isNaN(since.getTime())) {
+      throw makeHttpError("since must be an ISO date", 400, "INVALID_RANGE");
+    }
+
+    const minPct = parseNumber(searchParams.get("minPct"), "minPct");
+    const limit = Math.min(
+      Math.floor(
+        parseNumber(searchParams.get("limit"), "limit") ?? DEFAULT_LIMIT
+      ),
+      MAX_LIMIT
+    );
+
+    const changes = await prisma.marketChange.findMany({
+      where: {
+        marketId: id,
+        kpi: kpi ?? undefined,
+        propertyType: propertyType ?? undefined,
+        source: source ?? undefined,
+        createdAt: since ? { gte: since } : undefined,
+        ...(minPct != null
+          ? {
+              OR: [
+                { pctChange: { gte: minPct } },
+                { pctChange: { lte: -minPct } },
+              ],
+            }
+          : {}),
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit,
+    });
+
+    return NextResponse.json({ marketId: id, changes });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
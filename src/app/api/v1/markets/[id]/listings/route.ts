@@ -0,0 +1,63 @@
+// src/app/api/v1/markets/[id]/listings/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { httpErrorResponse } from "@/lib/httpError";
+import { ingestListings, staleListingKinds } from "@/lib/listings";
+
+// GET /api/v1/markets/:id/listings?kind=sale|rental&bucket=sfh
+// Active listings behind the market medians, plus pullCost: the budgeted
+// calls a POST would make right now (0 while listings are fresh)
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const { searchParams } = new URL(req.url);
+  const kind = searchParams.get("kind");
+  const bucket = searchParams.get("bucket");
+
+  const [listings, stale] = await Promise.all([
+    prisma.listing.findMany({
+      where: {
+        marketId: id,
+        status: "Active",
+        ...(kind ? { kind } : {}),
+        ...(bucket ? { bucket } : {}),
+      },
+      orderBy: { price: "asc" },
+    }),
+    staleListingKinds(id),
+  ]);
+
+  const lastSeenAt = listings.reduce<Date | null>(
+    (latest, l) => (!latest || l.lastSeenAt > latest ? l.lastSeenAt : latest),
+    null
+  );
+
+  return NextResponse.json({ listings, lastSeenAt, pullCost: stale.length });
+}
+
+// POST /api/v1/markets/:id/listings[?refresh=1]
+// Re-ingest listings from RentCast: one budgeted call per kind (sale,
+// rental) not seen within LISTINGS_TTL_HOURS, so at most 2; refresh=1
+// fetches both regardless. `charged` is what this pull cost.
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  const market = await prisma.market.findUnique({ where: { id } });
+  if (!market) {
+    return NextResponse.json({ error: "Market not found" }, { status: 404 });
+  }
+
+  try {
+    const refresh = new URL(req.url).searchParams.get("refresh") === "1";
+    const { counts, charged } = await ingestListings(id, { refresh });
+    return NextResponse.json({ ok: true, counts, charged });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -0,0 +1,94 @@
+// src/app/api/v1/markets/[id]/series/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { httpErrorResponse, makeHttpError } from "@/lib/httpError";
+import { getSeries, SERIES_METRICS } from "@/lib/seriesPoints";
+import { findLatestSnapshot } from "@/lib/snapshotRepository";
+import {
+  INDEX_SOURCES,
+  MARKET_DATA_PROVIDER_IDS,
+  PROPERTY_TYPE_BUCKETS,
+} from "@/providers/types";
+
+const SOURCES: string[] = [...MARKET_DATA_PROVIDER_IDS, ...INDEX_SOURCES];
+const PROPERTY_TYPES: string[] = ["all", ...PROPERTY_TYPE_BUCKETS];
+const DEFAULT_METRICS = ["medianPrice", "medianRent"];
+
+// "2024-06" or "2024-06-15" -> first of that month (UTC)
+function parseMonth(value: string | null, param: string): Date | undefined {
+  if (!value) return undefined;
+  const m = value.match(/^(\d{4})-(\d{2})(?:-\d{2})?$/);
+  if (!m) {
+    throw makeHttpError(
+      `${param} must be YYYY-MM or YYYY-MM-DD`,
+      400,
+      "INVALID_RANGE"
+    );
+  }
+  return new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, 1));
+}
+
+// GET /api/v1/markets/:id/series?metric=medianPrice,medianRent&propertyType=sfh&source=rentcast&from=2024-01&to=2025-12
+// Monthly history from SeriesPoint; source defaults to the market's latest provider snapshot
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { searchParams } = new URL(req.url);
+
+    const metrics =
+      searchParams.get("metric")?.split(",").filter(Boolean) ?? DEFAULT_METRICS;
+    const unknownMetric = metrics.find(
+      (m) => !(SERIES_METRICS as readonly string[]).includes(m)
+    );
+    if (unknownMetric) {
+      throw makeHttpError(
+        `Unknown metric "${unknownMetric}" (expected ${SERIES_METRICS.join(", ")})`,
+        400,
+        "INVALID_METRIC"
+      );
+    }
+
+    const propertyType = searchParams.get("propertyType") ?? "all";
+    if (!PROPERTY_TYPES.includes(propertyType)) {
+      throw makeHttpError(
+        `Unknown propertyType "${propertyType}"`,
+        400,
+        "INVALID_PROPERTY_TYPE"
+      );
+    }
+
+    let source = searchParams.get("source");
+    if (source && !SOURCES.includes(source)) {
+      throw makeHttpError(`Unknown source "${source}"`, 400, "INVALID_SOURCE");
+    }
+    if (!source) {
+      const latest = await findLatestSnapshot(id);
+      source = latest?.source ?? "rentcast";
+    }
+
+    const from = parseMonth(searchParams.get("from"), "from");
+    const to = parseMonth(searchParams.get("to"), "to");
+
+    const points = await getSeries({
+      marketId: id,
+      source,
+      propertyType,
+      metrics,
+      from,
+      to,
+    });
+
+    return NextResponse.json({
+      marketId: id,
+      source,
+      propertyType,
+      metrics,
+      points,
+    });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
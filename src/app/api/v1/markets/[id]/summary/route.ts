@@ -1,6 +1,12 @@
 // src/app/api/v1/markets/[id]/summary/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { fuseSnapshots } from "@/lib/marketFusion";
+import { getSeries } from "@/lib/seriesPoints";
+import {
+  findLatestSnapshot,
+  findLatestSnapshotsBySource,
+} from "@/lib/snapshotRepository";
 
 // GET /api/v1/markets/:id/summary
 export async function GET(
@@ -21,10 +27,7 @@ export async function GET(
     );
   }
 
-  const snapshot = await prisma.snapshot.findFirst({
-    where: { marketId: id },
-    orderBy: { asOf: "desc" },
-  });
+  const snapshot = await findLatestSnapshot(id);
 
   if (!snapshot) {
     return NextResponse.json(
@@ -33,14 +36,24 @@ export async function GET(
     );
   }
 
+  const latest = await findLatestSnapshotsBySource(id);
+
   return NextResponse.json({
     market,
+    // Per-KPI combination of the latest snapshot from every source
+    fused: fuseSnapshots(latest),
     snapshot: {
       id: snapshot.id,
       asOf: snapshot.asOf,
+      source: snapshot.source,
       // dimensions removed because the column no longer exists in your schema
       kpis: snapshot.kpis,
-      series: snapshot.series,
+      // Full overall history; use /series for ranges, types and other metrics
+      series: await getSeries({
+        marketId: id,
+        source: snapshot.source,
+        metrics: ["medianPrice", "medianRent"],
+      }),
       sourceMeta: snapshot.sourceMeta,
     },
   });
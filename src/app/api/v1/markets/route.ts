@@ -1,23 +1,33 @@
 // src/app/api/v1/markets/route.ts
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { fetchRentCastAggregate } from "@/providers/rentcast";
-import { resolveZip } from "@/lib/geo";
-import { withRentCastBudget } from "@/lib/apiUsage";
-
-type PropertyType = "sfh" | "condo" | "2to4";
+import { isSnapshotFresh } from "@/lib/freshness";
+import { httpErrorResponse } from "@/lib/httpError";
+import { runIfNoWorker } from "@/lib/inlineJobs";
+import { enqueueMarketRefresh } from "@/lib/jobs";
+import { upsertZipMarket } from "@/lib/zipMarkets";
+import {
+  findLatestSnapshot,
+  LATEST_SNAPSHOT_FIRST,
+  servedSnapshots,
+} from "@/lib/snapshotRepository";
+import type { MarketTightness } from "@/providers/redfin";
+import type { PropertyTypeBucket } from "@/providers/types";
+
+// Someone is waiting on these, so they go ahead of scheduled work
+const USER_JOB_PRIORITY = 10;
 
 type PostBody = {
   zip: string;
-  propertyType?: PropertyType;
+  propertyType?: PropertyTypeBucket;
 };
 
-function isFresh(asOf: Date, ttlHours = 24) {
-  return Date.now() - asOf.getTime() < ttlHours * 60 * 60 * 1000;
-}
-
 // POST /api/v1/markets
-// Add a ZIP → ensure fresh snapshot → return market + snapshot
+// Add a ZIP → return market + latest snapshot; a missing or stale snapshot
+// is refreshed by a background job (run in-process when no worker is
+// up, see lib/inlineJobs.ts). Without any snapshot yet the response
+// is 202 with only the job: poll GET /api/v1/jobs/:id, the Market row is
+// created once the provider call succeeds.
 export async function POST(req: Request) {
   try {
     const body = (await req.json()) as PostBody;
@@ -32,85 +42,109 @@ export async function POST(req: Request) {
     }
 
     const marketId = `zip:${zip}`;
+    const snapshot = await findLatestSnapshot(marketId);
 
-    // 1) Find latest snapshot first
-    let snapshot = await prisma.snapshot.findFirst({
-      where: { marketId },
-      orderBy: { asOf: "desc" },
-    });
-
-    // 2) If stale/missing -> call RentCast (budget-guarded)
-    // BUT do NOT create snapshot until Market exists (FK)
-    let aggregate: any = null;
-
-    if (!snapshot || !isFresh(snapshot.asOf)) {
-      const dims = { propertyType };
-
-      aggregate = await withRentCastBudget(() =>
-        fetchRentCastAggregate(marketId, dims)
+    if (!snapshot) {
+      const job = await enqueueMarketRefresh(
+        marketId,
+        { propertyType, addMarket: true },
+        USER_JOB_PRIORITY
       );
-    }
-
-    // 3) Upsert Market (only after we know RentCast didn't fail)
-    const loc = await resolveZip(zip);
-    const city = loc?.city ?? null;
-    const state = loc?.stateCode ?? null;
-
-    const market = await prisma.market.upsert({
-      where: { id: marketId },
-      update: {
-        city: city ?? undefined,
-        state: state ?? undefined,
-        scope: "city",
-        hidden: false,
-      },
-      create: {
-        id: marketId,
-        city,
-        state,
-        scope: "city",
-        hidden: false,
-      },
-    });
-
-    // 4) If we fetched new data, now create snapshot (FK is satisfied)
-    if (aggregate) {
-      snapshot = await prisma.snapshot.create({
-        data: {
-          marketId: market.id, // same as marketId, but explicit
-          asOf: aggregate.asOf,
-          kpis: aggregate.kpis as any,
-          series: aggregate.series as any,
-          sourceMeta: aggregate.sourceMeta as any,
+      await runIfNoWorker(job);
+      return NextResponse.json(
+        {
+          market: null,
+          snapshot: null,
+          job: { id: job.id, status: job.status },
         },
-      });
+        { status: 202 }
+      );
     }
 
-    return NextResponse.json({ market, snapshot }, { status: 200 });
-  } catch (e: any) {
-    console.error(e);
+    const market = await upsertZipMarket(zip);
+
+    const job = isSnapshotFresh(snapshot)
+      ? null
+      : await enqueueMarketRefresh(
+          marketId,
+          { propertyType },
+          USER_JOB_PRIORITY
+        );
+    if (job) await runIfNoWorker(job);
 
     return NextResponse.json(
-      { error: e?.message ?? "Server error", code: e?.code ?? "SERVER_ERROR" },
-      { status: e?.status ?? 500 }
+      { market, snapshot, job: job && { id: job.id, status: job.status } },
+      { status: 200 }
     );
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
   }
 }
 
+// What the cards show next to price and rent (latest Redfin snapshot)
+type CardTightness = Pick<
+  MarketTightness,
+  "monthsOfSupply" | "saleToList" | "soldAboveList"
+>;
+
+// Latest Redfin tightness per market, same fields as the summary route's
+// redfin index (sourceMeta.tightness)
+async function latestTightness(marketIds: string[]) {
+  const snapshots = await prisma.snapshot.findMany({
+    where: { marketId: { in: marketIds }, ...servedSnapshots(["redfin"]) },
+    orderBy: LATEST_SNAPSHOT_FIRST,
+    distinct: ["marketId"],
+    select: { marketId: true, sourceMeta: true },
+  });
+
+  return new Map(
+    snapshots.flatMap((s): [string, CardTightness][] => {
+      const meta = s.sourceMeta as { tightness?: MarketTightness | null };
+      if (!meta?.tightness) return [];
+      const { monthsOfSupply, saleToList, soldAboveList } = meta.tightness;
+      return [[s.marketId, { monthsOfSupply, saleToList, soldAboveList }]];
+    })
+  );
+}
+
+// Latest market-wide DOM move per market and source (MarketChange pctChange)
+async function latestDomTrend(marketIds: string[]) {
+  const changes = await prisma.marketChange.findMany({
+    where: {
+      marketId: { in: marketIds },
+      propertyType: "all",
+      kpi: "dom",
+      pctChange: { not: null },
+    },
+    orderBy: { createdAt: "desc" },
+    distinct: ["marketId", "source"],
+    select: { marketId: true, source: true, pctChange: true },
+  });
+  return new Map(
+    changes.map((c) => [`${c.marketId}|${c.source}`, c.pctChange])
+  );
+}
 
 // GET /api/v1/markets
-// List all markets with their latest snapshot (for cards)
+// List all markets with their latest snapshot and Redfin tightness (for cards)
 export async function GET() {
   const markets = await prisma.market.findMany({
     where: { hidden: false },
     include: {
       snapshots: {
-        orderBy: { asOf: "desc" },
+        where: servedSnapshots(),
+        orderBy: LATEST_SNAPSHOT_FIRST,
         take: 1,
       },
     },
     orderBy: { createdAt: "desc" },
   });
+  const ids = markets.map((m) => m.id);
+  const [tightness, domTrend] = await Promise.all([
+    latestTightness(ids),
+    latestDomTrend(ids),
+  ]);
 
   const items = markets.map((m) => {
     const snap = m.snapshots[0];
@@ -120,6 +154,8 @@ export async function GET() {
       medianPrice?: number;
       medianRent?: number;
       dom?: number;
+      // DOM change at the last refresh (0.05 = +5%)
+      domTrend?: number | null;
     };
 
     if (snap) {
@@ -129,6 +165,7 @@ export async function GET() {
         medianPrice: kpis?.medianPrice,
         medianRent: kpis?.medianRent,
         dom: kpis?.dom,
+        domTrend: domTrend.get(`${m.id}|${snap.source}`) ?? null,
       };
     }
 
@@ -138,6 +175,7 @@ export async function GET() {
       state: m.state,
       hidden: m.hidden,
       summary,
+      tightness: tightness.get(m.id) ?? null,
     };
   });
 
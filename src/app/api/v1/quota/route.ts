@@ -0,0 +1,17 @@
+// src/app/api/v1/quota/route.ts
+import { NextResponse } from "next/server";
+import { httpErrorResponse } from "@/lib/httpError";
+import { getQuotaForecast } from "@/lib/usageReport";
+
+// GET /api/v1/quota
+// Public quota flag for the dashboard: whether RentCast calls are projected
+// to run out before the period resets. Details live in /api/v1/admin/usage.
+export async function GET() {
+  try {
+    const { overLimit, periodEnd } = await getQuotaForecast("rentcast");
+    return NextResponse.json({ ok: true, overLimit, periodEnd });
+  } catch (e) {
+    console.error(e);
+    return httpErrorResponse(e);
+  }
+}
@@ -1,12 +1,23 @@
 // src/app/api/v1/summary/route.ts
 import { NextResponse } from "next/server";
+import { isSnapshotFresh } from "@/lib/freshness";
+import { runIfNoWorker } from "@/lib/inlineJobs";
+import { enqueueMarketRefresh } from "@/lib/jobs";
+import { refreshMarketSnapshot } from "@/lib/marketRefresh";
+import { fuseSnapshots } from "@/lib/marketFusion";
 import { prisma } from "@/lib/prisma";
-import { fetchRentCastAggregate } from "@/providers/rentcast";
-
-function isFresh(asOf: Date, ttlHours = 24) {
-  return Date.now() - asOf.getTime() < ttlHours * 60 * 60 * 1000;
-}
+import { getSeries } from "@/lib/seriesPoints";
+import {
+  findLatestSnapshot,
+  findLatestSnapshotsBySource,
+} from "@/lib/snapshotRepository";
+import { INDEX_SOURCES, type IndexSource } from "@/providers/types";
 
+// GET /api/v1/summary?marketId=zip:18504[&wait=1]
+// Stale-while-revalidate: a snapshot past its market's TTL is returned right
+// away with stale + refreshing set, and a refresh job is queued for the
+// worker (or run after the response when none is up). Clients poll until
+// refreshing is false. wait=1 blocks on the refresh instead.
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const marketId = searchParams.get("marketId");
@@ -19,45 +30,64 @@ export async function GET(req: Request) {
   }
 
   let stale = false;
+  let refreshing = false;
+  let jobId: number | undefined;
   let error: string | undefined;
 
-  // latest snapshot for this market, propertyType = 'all'
-  let snapshot = await prisma.snapshot.findFirst({
-    where: { marketId, propertyType: "all" },
-    orderBy: { asOf: "desc" },
-  });
+  let snapshot = await findLatestSnapshot(marketId);
 
-  const needsRefresh =
-    !snapshot || !isFresh(snapshot.asOf, 24);
+  const needsRefresh = !snapshot || !isSnapshotFresh(snapshot);
+  const wait = searchParams.get("wait") === "1";
 
-  if (needsRefresh) {
+  if (needsRefresh && snapshot && !wait) {
+    stale = true;
+    // One queued job per market however many readers poll; failures keep
+    // the old snapshot
     try {
-      const providerSnapshot = await fetchRentCastAggregate(marketId, {});
+      const job = await enqueueMarketRefresh(marketId);
+      await runIfNoWorker(job);
+      jobId = job.id;
+      refreshing = true;
+    } catch (e) {
+      console.warn(
+        `[summary] Could not queue a refresh of ${marketId}:`,
+        e instanceof Error ? e.message : e
+      );
+    }
+  } else if (needsRefresh) {
+    // A snapshot implies its market; without one, don't pay for a fetch
+    // that has no Market row to be stored against
+    if (
+      !snapshot &&
+      !(await prisma.market.findUnique({
+        where: { id: marketId },
+        select: { id: true },
+      }))
+    ) {
+      return NextResponse.json(
+        { error: "Market not found" },
+        { status: 404 }
+      );
+    }
 
-      snapshot = await prisma.snapshot.create({
-        data: {
-          marketId,
-          propertyType: "all",
-          asOf: providerSnapshot.asOf,
-          kpis: providerSnapshot.kpis,
-          series: providerSnapshot.series,
-          sourceMeta: providerSnapshot.sourceMeta ?? null,
-        } as any,
-      });
+    try {
+      // Coalesced with any concurrent refresh of this market
+      const result = await refreshMarketSnapshot(marketId, { dims: {} });
+      snapshot = result.snapshot;
 
       stale = false;
-    } catch (e: any) {
+    } catch (e) {
+      const message = e instanceof Error ? e.message : undefined;
       // if we had an old snapshot, mark stale and keep using it
       if (snapshot) {
         stale = true;
         error =
-          e?.message ??
-          "Failed to refresh RentCast data; using last snapshot.";
+          message ?? "Failed to refresh RentCast data; using last snapshot.";
       } else {
         return NextResponse.json(
           {
             error:
-              e?.message ??
+              message ??
               "Failed to load RentCast data and no snapshot available.",
           },
           { status: 500 }
@@ -73,9 +103,29 @@ export async function GET(req: Request) {
     );
   }
 
+  // Latest snapshot per source (provider + imported indexes like Zillow);
+  // indexes never trigger a refresh
+  const latest = await findLatestSnapshotsBySource(marketId);
+  const indexes = latest.filter((s) =>
+    INDEX_SOURCES.includes(s.source as IndexSource)
+  );
+
+  // Snapshot rows no longer carry history; serve the overall series from
+  // SeriesPoint (clients wanting a range/type should call /markets/:id/series)
+  const series = await getSeries({
+    marketId,
+    source: snapshot.source,
+    metrics: ["medianPrice", "medianRent"],
+  });
+
   return NextResponse.json({
-    snapshot,
+    snapshot: { ...snapshot, series },
+    indexes,
+    // Per-KPI combination of all sources, with provenance + disagreements
+    fused: fuseSnapshots(latest),
     stale,
+    refreshing,
+    jobId,
     error,
   });
 }
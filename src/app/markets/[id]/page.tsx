@@ -37,6 +37,12 @@ export default async function MarketDetailPage({
 
   if (!market) notFound();
 
+  // Popular markets get refreshed first (lib/refreshScheduler.ts)
+  await prisma.market.update({
+    where: { id },
+    data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+  });
+
   const cityLabel = `${market.city ?? "Unknown"}, ${market.state ?? "??"}`;
 
 
@@ -8,6 +8,17 @@ type MarketCardSummary = {
   medianPrice?: number;
   medianRent?: number;
   dom?: number;
+  // DOM change at the last refresh (0.05 = +5%)
+  domTrend?: number | null;
+};
+
+// Redfin market tightness (GET /api/v1/markets)
+type MarketCardTightness = {
+  monthsOfSupply: number | null;
+  // 1.02 = sold 2% over list
+  saleToList: number | null;
+  // share sold above list, 0..1
+  soldAboveList: number | null;
 };
 
 export type MarketItem = {
@@ -15,22 +26,81 @@ export type MarketItem = {
   city: string | null;
   state: string | null;
   summary: MarketCardSummary | null;
+  tightness?: MarketCardTightness | null;
+};
+
+// GET /api/v1/quota
+type QuotaForecast = {
+  overLimit: boolean;
+  periodEnd: string;
+};
+
+// Subset of GET /api/v1/jobs/:id
+type JobState = {
+  status: "queued" | "running" | "succeeded" | "dead";
+  lastError: string | null;
+  lastErrorCode: string | null;
 };
 
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_MAX_POLLS = 30;
+
+async function fetchMarkets(): Promise<MarketItem[]> {
+  const res = await fetch("/api/v1/markets", { cache: "no-store" });
+  if (!res.ok) throw new Error("Failed to fetch markets");
+  return res.json();
+}
+
+// Poll a job until it finishes; null if it's still going after a minute
+async function waitForJob(id: number): Promise<JobState | null> {
+  for (let poll = 0; poll < JOB_MAX_POLLS; poll++) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    const res = await fetch(`/api/v1/jobs/${id}`, { cache: "no-store" });
+    if (!res.ok) continue;
+    const { job } = (await res.json()) as { job: JobState };
+    if (job.status === "succeeded" || job.status === "dead") return job;
+  }
+  return null;
+}
+
+function addMarketError(code?: string | null, message?: string | null) {
+  switch (code) {
+    case "RENTCAST_NO_DATA":
+      return "No data available for that ZIP. Try a nearby ZIP.";
+
+    case "RENTCAST_QUOTA_EXHAUSTED":
+    case "RENTCAST_RATE_LIMIT":
+      return "Monthly data limit reached. Please try again later.";
+
+    case "RENTCAST_PROVIDER_ERROR":
+      return "Market data provider is temporarily unavailable.";
+
+    case "RENTCAST_CIRCUIT_OPEN":
+      return "Market data provider is temporarily unavailable. Try again in a few minutes.";
+
+    case "RENTCAST_SCHEMA_MISMATCH":
+      return "Market data provider returned unexpected data. Try again later.";
+
+    case "SNAPSHOT_QUARANTINED":
+      return "Data for that ZIP failed quality checks and is held for review.";
+
+    default:
+      return message ?? "Failed to add market.";
+  }
+}
+
 export default function DashboardPage() {
   const [zip, setZip] = useState("");
   const [markets, setMarkets] = useState<MarketItem[]>([]);
   const [loadingAdd, setLoadingAdd] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [quota, setQuota] = useState<QuotaForecast | null>(null);
 
   useEffect(() => {
     (async () => {
       try {
-        const res = await fetch("/api/v1/markets", { cache: "no-store" });
-        if (!res.ok) throw new Error("Failed to fetch markets");
-        const data = await res.json();
-        setMarkets(data);
+        setMarkets(await fetchMarkets());
       } catch (e) {
         console.error(e);
       } finally {
@@ -39,6 +109,19 @@ export default function DashboardPage() {
     })();
   }, []);
 
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/v1/quota", { cache: "no-store" });
+        if (!res.ok) return;
+        const data: QuotaForecast = await res.json();
+        if (data.overLimit) setQuota(data);
+      } catch (e) {
+        console.error(e);
+      }
+    })();
+  }, []);
+
   async function handleAdd(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
@@ -59,26 +142,28 @@ export default function DashboardPage() {
 
       if (!res.ok) {
         const msg = await res.json().catch(() => null);
-        switch (msg?.code) {
-          case "RENTCAST_NO_DATA":
-            setError("No data available for that ZIP. Try a nearby ZIP.");
-            break;
-      
-          case "RENTCAST_RATE_LIMIT":
-            setError("Monthly data limit reached. Please try again later.");
-            break;
-      
-          case "RENTCAST_PROVIDER_ERROR":
-            setError("Market data provider is temporarily unavailable.");
-            break;
-      
-          default:
-            setError(msg?.error ?? "Failed to add market.");
-        }
+        setError(addMarketError(msg?.code, msg?.error));
         return;
       }
       setError(null);
 
+      // New ZIP: the provider call runs as a background job
+      if (res.status === 202) {
+        const { job } = await res.json();
+        const finished = await waitForJob(job.id);
+        if (finished?.status !== "succeeded") {
+          setError(
+            finished
+              ? addMarketError(finished.lastErrorCode, finished.lastError)
+              : "Still fetching data for that ZIP. Check back in a minute."
+          );
+          return;
+        }
+        setMarkets(await fetchMarkets());
+        setZip("");
+        return;
+      }
+
       const { market, snapshot } = await res.json();
       const kpis = snapshot.kpis as any;
 
@@ -188,6 +273,14 @@ export default function DashboardPage() {
               market. Fast, quota-friendly, and built for quick decisions.
             </p>
 
+            {quota && (
+              <div className="mt-5 max-w-xl border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                RentCast quota is projected to run out before{" "}
+                {quota.periodEnd.slice(0, 10)}. Some markets may show older data
+                until then.
+              </div>
+            )}
+
             {/* Feature list */}
             <div className="mt-7 grid grid-cols-2 gap-3 max-w-xl">
               {[
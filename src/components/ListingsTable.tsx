@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+type ListingKind = "sale" | "rental";
+
+type ListingRow = {
+  id: number;
+  kind: ListingKind;
+  address: string | null;
+  propertyType: string | null;
+  bucket: string;
+  price: number | null;
+  beds: number | null;
+  baths: number | null;
+  sqft: number | null;
+  daysOnMarket: number | null;
+};
+
+type ListingsApiResponse = {
+  listings: ListingRow[];
+  lastSeenAt: string | null;
+  // Budgeted calls a pull would make now
+  pullCost: number;
+};
+
+type ListingsTableProps = {
+  marketId: string;
+  bucket: string; // current property type toggle ("all" / sfh / condo / ...)
+};
+
+const KINDS: { id: ListingKind; label: string }[] = [
+  { id: "sale", label: "For Sale" },
+  { id: "rental", label: "For Rent" },
+];
+
+// Keep the table scannable; full inventory is available via the API
+const MAX_ROWS = 25;
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  });
+
+export default function ListingsTable({ marketId, bucket }: ListingsTableProps) {
+  const [kind, setKind] = useState<ListingKind>("sale");
+  const [data, setData] = useState<ListingsApiResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pulling, setPulling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function load() {
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/v1/markets/${encodeURIComponent(marketId)}/listings`,
+          { signal: controller.signal, cache: "no-store" }
+        );
+        if (!res.ok) throw new Error("Failed to fetch listings");
+        setData((await res.json()) as ListingsApiResponse);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    load();
+    return () => controller.abort();
+  }, [marketId, reloadKey]);
+
+  async function handlePull() {
+    setPulling(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/v1/markets/${encodeURIComponent(marketId)}/listings`,
+        { method: "POST" }
+      );
+      if (!res.ok) {
+        const msg = await res.json().catch(() => null);
+        setError(msg?.error ?? "Failed to pull listings.");
+        return;
+      }
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      console.error(err);
+      setError("Unexpected error pulling listings.");
+    } finally {
+      setPulling(false);
+    }
+  }
+
+  const rows = useMemo(
+    () =>
+      (data?.listings ?? []).filter(
+        (l) => l.kind === kind && (bucket === "all" || l.bucket === bucket)
+      ),
+    [data, kind, bucket]
+  );
+
+  const hasAny = (data?.listings.length ?? 0) > 0;
+
+  return (
+    <section className="border border-white/15 bg-white/5 p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <p className="text-sm text-white/75">Active inventory</p>
+          <p className="mt-0.5 text-[11px] text-white/55">
+            {data?.lastSeenAt
+              ? `Pulled ${new Date(data.lastSeenAt).toLocaleString()} · ${rows.length} matching`
+              : "No listings pulled for this market yet"}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="inline-flex items-center gap-1 border border-white/15 bg-white/5 p-1 text-[11px] sm:text-xs">
+            {KINDS.map((k) => (
+              <button
+                key={k.id}
+                onClick={() => setKind(k.id)}
+                className={`px-3 py-1.5 font-medium transition ${
+                  kind === k.id
+                    ? "bg-white text-black"
+                    : "text-white/60 hover:text-white hover:bg-white/10"
+                }`}
+              >
+                {k.label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={handlePull}
+            disabled={pulling || data?.pullCost === 0}
+            title={
+              data?.pullCost === 0
+                ? "Listings are up to date"
+                : `Uses ${data?.pullCost ?? 2} RentCast call(s)`
+            }
+            className="border border-white/20 bg-[#0B0B0F]/40 px-3 py-1.5 text-xs font-medium text-white/70 hover:border-white/40 hover:text-white disabled:opacity-60 disabled:cursor-not-allowed transition"
+          >
+            {pulling
+              ? "Pulling…"
+              : data?.pullCost === 0
+                ? "Up to date"
+                : hasAny
+                  ? "Refresh listings"
+                  : "Pull listings"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-3 border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-3 border border-white/15 bg-[#0B0B0F]/40">
+        {loading ? (
+          <p className="p-3 text-xs text-white/55">Loading listings…</p>
+        ) : rows.length === 0 ? (
+          <p className="p-3 text-xs text-white/55">
+            No active listings for this property type.
+          </p>
+        ) : (
+          <table className="w-full text-left text-xs">
+            <thead className="text-[11px] uppercase tracking-[0.2em] text-white/45">
+              <tr className="border-b border-white/10">
+                <th className="px-3 py-2 font-medium">Address</th>
+                <th className="px-3 py-2 font-medium text-right">
+                  {kind === "sale" ? "Price" : "Rent"}
+                </th>
+                <th className="px-3 py-2 font-medium text-right">Beds</th>
+                <th className="px-3 py-2 font-medium text-right">Baths</th>
+                <th className="px-3 py-2 font-medium text-right">Sq Ft</th>
+                <th className="px-3 py-2 font-medium text-right">DOM</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, MAX_ROWS).map((l) => (
+                <tr key={l.id} className="border-b border-white/5 text-white/80">
+                  <td className="px-3 py-2">{l.address ?? "—"}</td>
+                  <td className="px-3 py-2 text-right">
+                    {l.price != null ? formatCurrency(l.price) : "—"}
+                  </td>
+                  <td className="px-3 py-2 text-right">{l.beds ?? "—"}</td>
+                  <td className="px-3 py-2 text-right">{l.baths ?? "—"}</td>
+                  <td className="px-3 py-2 text-right">
+                    {l.sqft != null ? l.sqft.toLocaleString() : "—"}
+                  </td>
+                  <td className="px-3 py-2 text-right">{l.daysOnMarket ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
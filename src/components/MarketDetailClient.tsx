@@ -4,14 +4,28 @@
 import { useState, useEffect, useMemo } from "react";
 import PriceHistoryChart from "@/components/PriceHistoryChart";
 import MortgageCalculator from "@/components/MortgageCalculator";
-
-type PropertyType = "sfh" | "condo" | "2to4";
+import ListingsTable from "@/components/ListingsTable";
+import PropertyEstimate from "@/components/PropertyEstimate";
+import type { PropertyTypeBucket } from "@/providers/types";
+import type {
+  ConfidenceAssessment,
+  KpiConfidence,
+} from "@/domain/confidence";
+import type { FusedKpi, FusedKpis, KpiProvenance } from "@/domain/fusion";
+
+type PropertyType = PropertyTypeBucket;
+// "all": every property type, where KPIs are combined across sources
+type PropertyView = PropertyType | "all";
 type Timeframe = "1Y" | "3Y" | "5Y" | "MAX";
 
-const TYPES: { id: PropertyType; label: string }[] = [
-  { id: "sfh", label: "Single Family" },
-  { id: "condo", label: "Condo" },
-  { id: "2to4", label: "2–4 Units" },
+const TYPES: { id: PropertyView; label: string; short: string }[] = [
+  { id: "all", label: "All Homes", short: "All homes" },
+  { id: "sfh", label: "Single Family", short: "SFH" },
+  { id: "condo", label: "Condo", short: "Condo" },
+  { id: "townhouse", label: "Townhouse", short: "Townhouse" },
+  { id: "2to4", label: "2–4 Units", short: "2–4 Units" },
+  { id: "5plus", label: "5+ Units", short: "5+ Units" },
+  { id: "manufactured", label: "Manufactured", short: "Manufactured" },
 ];
 
 const TIMEFRAMES: { id: Timeframe; label: string }[] = [
@@ -21,6 +35,40 @@ const TIMEFRAMES: { id: Timeframe; label: string }[] = [
   { id: "MAX", label: "Max" },
 ];
 
+// While the server refreshes a stale snapshot in the background
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLLS = 6;
+
+// Snapshot.source -> label shown next to each number
+const SOURCE_LABELS: Record<string, string> = {
+  rentcast: "RentCast",
+  fixture: "Fixture data",
+  zillow: "Zillow",
+  redfin: "Redfin",
+};
+
+const sourceLabel = (source?: string) =>
+  SOURCE_LABELS[source ?? "rentcast"] ?? source ?? "Unknown";
+
+const formatMonth = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+// Where a fused KPI came from: "RentCast · Oct 2025", or every source of a blend
+function provenanceLabel(provenance: KpiProvenance) {
+  if (provenance.value == null) return "No source has this yet";
+
+  const sources = provenance.sources.map(sourceLabel).join(" + ");
+  const label =
+    provenance.mode === "blend" && provenance.sources.length > 1
+      ? `Blend of ${sources}`
+      : sources;
+  return provenance.asOf ? `${label} · ${formatMonth(provenance.asOf)}` : label;
+}
+
 type KpisShape = {
   medianPrice: number | null;
   medianRent: number | null;
@@ -35,35 +83,61 @@ type SeriesPoint = {
   medianRent: number | null;
 };
 
+// Redfin market tracker metrics (rolling window ending at asOf)
+type TightnessShape = {
+  inventory: number | null;
+  monthsOfSupply: number | null;
+  saleToList: number | null;
+  soldAboveList: number | null;
+  homesSold: number | null;
+};
+
 type PerTypePayload = {
   kpis: KpisShape;
-  series: SeriesPoint[];
+  // only per-bedroom payloads still carry series (types use /series)
+  series?: SeriesPoint[];
+  confidence?: KpiConfidence;
+  tightness?: TightnessShape;
 };
 
 type SnapshotRow = {
   id: number;
   marketId: string;
   asOf: string; // Prisma Date -> JSON string
+  source?: string;
   dimensions: Record<string, any> | null;
   kpis: KpisShape;
   series: SeriesPoint[];
   sourceMeta?: {
-    perType?: {
-      sfh?: PerTypePayload;
-      condo?: PerTypePayload;
-      "2to4"?: PerTypePayload;
-    };
+    confidence?: KpiConfidence;
+    perType?: Partial<Record<PropertyType, PerTypePayload>>;
+    // keyed by bedroom count, "0" = studio
+    perBedroom?: Record<string, PerTypePayload>;
+    // Zillow snapshots: month ("YYYY-MM") behind each index value
+    indexes?: Partial<Record<"zhvi" | "zori", { month: string } | null>>;
+    // Redfin snapshots
+    tightness?: TightnessShape | null;
+    periodDays?: number | null;
   } | null;
 };
 
 type SummaryApiResponse = {
   snapshot: SnapshotRow;
+  // Imported index snapshots (Zillow ZHVI/ZORI), all property types
+  indexes?: SnapshotRow[];
+  // All sources combined per KPI (all property types)
+  fused?: FusedKpis;
   stale?: boolean;
+  // A background refresh is running; poll again for the new snapshot
+  refreshing?: boolean;
   error?: string;
 };
 
 type SnapshotResponse = SnapshotRow & {
+  indexes: SnapshotRow[];
+  fused?: FusedKpis;
   stale?: boolean;
+  refreshing?: boolean;
   error?: string;
 };
 
@@ -71,17 +145,40 @@ type Props = {
   marketId: string;
 };
 
+// "all" (use the property type breakdown) or a perBedroom key
+type BedroomFilter = string;
+
+// Start of the chart window for a timeframe, counted back from the snapshot date
+function timeframeCutoff(asOf: string, timeframe: Timeframe): Date | null {
+  if (timeframe === "MAX") return null;
+  const d = new Date(asOf);
+  if (Number.isNaN(d.getTime())) return null;
+  const yearsBack = timeframe === "1Y" ? 1 : timeframe === "3Y" ? 3 : 5;
+  return new Date(d.getFullYear() - yearsBack, d.getMonth(), d.getDate());
+}
+
+function bedroomLabel(key: string) {
+  if (key === "0") return "Studio";
+  return `${key}BR`;
+}
+
 export default function MarketDetailClient({ marketId }: Props) {
-  const [type, setType] = useState<PropertyType>("sfh");
+  const [type, setType] = useState<PropertyView>("all");
+  const [bedrooms, setBedrooms] = useState<BedroomFilter>("all");
   const [timeframe, setTimeframe] = useState<Timeframe>("1Y");
   const [data, setData] = useState<SnapshotResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  // Address-level AVM rent, overrides the ZIP median in the calculator
+  const [propertyRent, setPropertyRent] = useState<number | null>(null);
+  // Property type history for the selected timeframe (SeriesPoint-backed)
+  const [typeSeries, setTypeSeries] = useState<SeriesPoint[]>([]);
 
   useEffect(() => {
     const controller = new AbortController();
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
 
-    async function load() {
-      setLoading(true);
+    async function load(poll: number) {
+      if (poll === 0) setLoading(true);
       try {
         const params = new URLSearchParams({ marketId });
 
@@ -95,9 +192,17 @@ export default function MarketDetailClient({ marketId }: Props) {
 
         setData({
           ...json.snapshot,
+          indexes: json.indexes ?? [],
+          fused: json.fused,
           stale: json.stale,
+          refreshing: json.refreshing,
           error: json.error,
         });
+
+        // Served stale: check back once the background refresh has landed
+        if (json.refreshing && poll < MAX_POLLS) {
+          pollTimer = setTimeout(() => load(poll + 1), POLL_INTERVAL_MS);
+        }
       } catch (err) {
         if (err instanceof DOMException && err.name === "AbortError") return;
         console.error(err);
@@ -106,43 +211,116 @@ export default function MarketDetailClient({ marketId }: Props) {
       }
     }
 
-    load();
-    return () => controller.abort();
+    load(0);
+    return () => {
+      controller.abort();
+      clearTimeout(pollTimer);
+    };
   }, [marketId]);
 
-  const baseKpis = data?.kpis ?? ({} as KpisShape);
-  const baseSeries = data?.series ?? [];
+  const asOf = data?.asOf;
+  const source = data?.source;
 
-  const perType = data?.sourceMeta?.perType;
-  const typePayload = perType ? perType[type] : undefined;
+  useEffect(() => {
+    if (!asOf) return;
+    const controller = new AbortController();
 
-  const activeKpis: KpisShape = (typePayload?.kpis ?? baseKpis) as KpisShape;
-  const activeSeries: SeriesPoint[] = (typePayload?.series ??
-    baseSeries) as SeriesPoint[];
+    async function loadSeries() {
+      const params = new URLSearchParams({ propertyType: type });
+      if (source) params.set("source", source);
+      const cutoff = timeframeCutoff(asOf!, timeframe);
+      if (cutoff) params.set("from", cutoff.toISOString().slice(0, 7));
 
-  const filteredSeries = useMemo(() => {
-    if (!data || timeframe === "MAX") return activeSeries;
+      try {
+        const res = await fetch(
+          `/api/v1/markets/${encodeURIComponent(marketId)}/series?${params.toString()}`,
+          { signal: controller.signal }
+        );
+        if (!res.ok) throw new Error("Failed to fetch series");
+        const json = (await res.json()) as { points: SeriesPoint[] };
+        setTypeSeries(json.points);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        console.error(err);
+      }
+    }
 
-    const asOf = new Date(data.asOf);
-    if (Number.isNaN(asOf.getTime())) return activeSeries;
+    loadSeries();
+    return () => controller.abort();
+  }, [marketId, asOf, source, type, timeframe]);
 
-    const yearsBack = timeframe === "1Y" ? 1 : timeframe === "3Y" ? 3 : 5;
+  const baseKpis = data?.kpis ?? ({} as KpisShape);
+
+  const perType = data?.sourceMeta?.perType;
+  const typePayload =
+    perType && type !== "all" ? perType[type] : undefined;
+
+  // Bedroom stats span all property types, so they take over when selected
+  const perBedroom = data?.sourceMeta?.perBedroom;
+  const bedroomKeys = perBedroom ? Object.keys(perBedroom) : [];
+  const bedroomPayload =
+    bedrooms !== "all" ? perBedroom?.[bedrooms] : undefined;
+  const activePayload = bedroomPayload ?? typePayload;
+
+  const activeKpis: KpisShape = (activePayload?.kpis ?? baseKpis) as KpisShape;
+  const activeConfidence = activePayload
+    ? activePayload.confidence
+    : data?.sourceMeta?.confidence;
+  // Per-bedroom series still ship inside the snapshot (short, one provider
+  // window), so they're the only ones filtered here
+  const filteredSeries = useMemo(() => {
+    if (!bedroomPayload || !asOf) return typeSeries;
 
-    const cutoff = new Date(
-      asOf.getFullYear() - yearsBack,
-      asOf.getMonth(),
-      asOf.getDate()
-    );
+    const cutoff = timeframeCutoff(asOf, timeframe);
+    const series = bedroomPayload.series ?? [];
+    if (!cutoff) return series;
 
-    return activeSeries.filter((point) => {
+    return series.filter((point) => {
       const d = new Date(point.date);
       if (Number.isNaN(d.getTime())) return false;
       return d >= cutoff;
     });
-  }, [data, activeSeries, timeframe]);
-
-  const medianPrice = activeKpis.medianPrice ?? null;
-  const medianRent = activeKpis.medianRent ?? null;
+  }, [bedroomPayload, asOf, typeSeries, timeframe]);
+
+  const zillow = data?.indexes.find((s) => s.source === "zillow");
+  const zillowMonth = (index: "zhvi" | "zori") =>
+    formatMonth(zillow?.sourceMeta?.indexes?.[index]?.month ?? zillow!.asOf);
+  // Redfin has sfh/condo/townhouse/2-4 breakdowns; otherwise all residential
+  const redfin = data?.indexes.find((s) => s.source === "redfin");
+  const redfinTypeTightness =
+    type !== "all" ? redfin?.sourceMeta?.perType?.[type]?.tightness : undefined;
+  const tightness = redfinTypeTightness ?? redfin?.sourceMeta?.tightness;
+  const tightnessSource = redfin
+    ? [
+        "Redfin",
+        redfinTypeTightness
+          ? TYPES.find((t) => t.id === type)?.short
+          : "All residential",
+        `${redfin.sourceMeta?.periodDays ?? 90} days to ${new Date(
+          redfin.asOf
+        ).toLocaleDateString("en-US", { timeZone: "UTC" })}`,
+      ].join(" · ")
+    : "";
+
+  const primarySource = data
+    ? `${sourceLabel(data.source)} · ${formatMonth(data.asOf)}`
+    : "";
+
+  // All homes: one value per KPI combined across sources, labelled with
+  // where it came from. Type and bedroom breakdowns only exist in the
+  // primary snapshot, so those views show its numbers.
+  const fused = type === "all" && !bedroomPayload ? data?.fused : undefined;
+  const shownKpis: Record<FusedKpi, number | null> = fused
+    ? fused.kpis
+    : activeKpis;
+  const kpiSource = (kpi: FusedKpi) =>
+    fused ? provenanceLabel(fused.provenance[kpi]) : primarySource;
+  // Zillow's number is shown on its own unless it's the one above
+  const showZillow = (kpi: FusedKpi) =>
+    !fused?.provenance[kpi].sources.includes("zillow");
+
+  const medianPrice = shownKpis.medianPrice ?? null;
+  const medianRent = shownKpis.medianRent ?? null;
 
   const showInitialOverlay = loading && !data;
 
@@ -171,21 +349,43 @@ export default function MarketDetailClient({ marketId }: Props) {
 
       {/* Top controls */}
       <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-        {/* TYPES */}
-        <div className="inline-flex items-center gap-1 border border-white/15 bg-white/5 p-1">
-          {TYPES.map((t) => (
-            <button
-              key={t.id}
-              onClick={() => setType(t.id)}
-              className={`px-3.5 py-1.5 text-[11px] sm:text-xs font-medium transition ${
-                type === t.id
-                  ? "bg-white text-black"
-                  : "text-white/60 hover:text-white hover:bg-white/10"
-              }`}
+        <div className="flex flex-wrap items-center gap-2">
+          {/* TYPES */}
+          <div className="inline-flex flex-wrap items-center gap-1 border border-white/15 bg-white/5 p-1">
+            {TYPES.map((t) => (
+              <button
+                key={t.id}
+                onClick={() => {
+                  setType(t.id);
+                  setBedrooms("all");
+                }}
+                className={`px-3.5 py-1.5 text-[11px] sm:text-xs font-medium transition ${
+                  type === t.id && bedrooms === "all"
+                    ? "bg-white text-black"
+                    : "text-white/60 hover:text-white hover:bg-white/10"
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+
+          {/* BEDROOMS */}
+          {bedroomKeys.length > 0 && (
+            <select
+              value={bedrooms}
+              onChange={(e) => setBedrooms(e.target.value)}
+              aria-label="Bedrooms"
+              className="border border-white/15 bg-[#0B0B0F] px-3 py-2 text-[11px] sm:text-xs font-medium text-white/80 outline-none focus:border-white/40"
             >
-              {t.label}
-            </button>
-          ))}
+              <option value="all">All bedrooms</option>
+              {bedroomKeys.map((key) => (
+                <option key={key} value={key}>
+                  {bedroomLabel(key)}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
         <div className="flex items-center gap-4 justify-between sm:justify-end">
@@ -210,7 +410,11 @@ export default function MarketDetailClient({ marketId }: Props) {
             <p className="text-[11px] text-white/55 whitespace-nowrap">
               Last updated {new Date(data.asOf).toLocaleString()}
               {data.stale && (
-                <span className="text-white/45"> · using last known data</span>
+                <span className="text-white/45">
+                  {data.refreshing
+                    ? " · refreshing…"
+                    : " · using last known data"}
+                </span>
               )}
             </p>
           )}
@@ -230,46 +434,146 @@ export default function MarketDetailClient({ marketId }: Props) {
             {/* KPI panels */}
             <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
               <div className="border border-white/15 bg-white/5 p-4 transition hover:border-white/30">
-                <p className="text-[11px] text-white/60 uppercase tracking-[0.3em]">
-                  Avg Home Price
-                </p>
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-[11px] text-white/60 uppercase tracking-[0.3em]">
+                    Avg Home Price
+                  </p>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    <LowConfidenceFlag assessment={activeConfidence?.price} />
+                    <DisagreementFlag provenance={data.fused?.provenance.medianPrice} />
+                  </div>
+                </div>
                 <p className="mt-2 text-2xl font-semibold tracking-tight text-white">
-                  {activeKpis.medianPrice != null
-                    ? `$${Math.round(activeKpis.medianPrice).toLocaleString()}`
+                  {medianPrice != null
+                    ? `$${Math.round(medianPrice).toLocaleString()}`
                     : "—"}
                 </p>
+                <SourceNote label={kpiSource("medianPrice")} />
+                {zillow?.kpis.medianPrice != null && showZillow("medianPrice") && (
+                  <SourceNote
+                    label={`Zillow ZHVI (all homes) · ${zillowMonth("zhvi")}`}
+                    value={zillow.kpis.medianPrice}
+                  />
+                )}
               </div>
 
               <div className="border border-white/15 bg-white/5 p-4 transition hover:border-white/30">
-                <p className="text-[11px] text-white/60 uppercase tracking-[0.3em]">
-                  Est. Monthly Rent
-                </p>
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-[11px] text-white/60 uppercase tracking-[0.3em]">
+                    Est. Monthly Rent
+                  </p>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    <LowConfidenceFlag assessment={activeConfidence?.rent} />
+                    <DisagreementFlag provenance={data.fused?.provenance.medianRent} />
+                  </div>
+                </div>
                 <p className="mt-2 text-2xl font-semibold tracking-tight text-white">
-                  {activeKpis.medianRent != null
-                    ? `$${Math.round(activeKpis.medianRent).toLocaleString()}`
+                  {medianRent != null
+                    ? `$${Math.round(medianRent).toLocaleString()}`
                     : "—"}
                 </p>
+                <SourceNote label={kpiSource("medianRent")} />
+                {zillow?.kpis.medianRent != null && showZillow("medianRent") && (
+                  <SourceNote
+                    label={`Zillow ZORI (all homes) · ${zillowMonth("zori")}`}
+                    value={zillow.kpis.medianRent}
+                  />
+                )}
               </div>
 
               <div className="border border-white/15 bg-white/5 p-4 transition hover:border-white/30">
-                <p className="text-[11px] text-white/60 uppercase tracking-[0.3em]">
-                  Price / Sq Ft
-                </p>
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-[11px] text-white/60 uppercase tracking-[0.3em]">
+                    Price / Sq Ft
+                  </p>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    <LowConfidenceFlag assessment={activeConfidence?.price} />
+                    <DisagreementFlag provenance={data.fused?.provenance.ppsf} />
+                  </div>
+                </div>
                 <p className="mt-2 text-2xl font-semibold tracking-tight text-white">
-                  {activeKpis.ppsf != null ? `$${activeKpis.ppsf.toFixed(0)}` : "—"}
+                  {shownKpis.ppsf != null ? `$${shownKpis.ppsf.toFixed(0)}` : "—"}
                 </p>
+                <SourceNote label={kpiSource("ppsf")} />
               </div>
 
               <div className="border border-white/15 bg-white/5 p-4 transition hover:border-white/30">
-                <p className="text-[11px] text-white/60 uppercase tracking-[0.3em]">
-                  Days on Market
-                </p>
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-[11px] text-white/60 uppercase tracking-[0.3em]">
+                    Days on Market
+                  </p>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    <LowConfidenceFlag assessment={activeConfidence?.price} />
+                    <DisagreementFlag provenance={data.fused?.provenance.dom} />
+                  </div>
+                </div>
                 <p className="mt-2 text-2xl font-semibold tracking-tight text-white">
-                  {activeKpis.dom != null ? activeKpis.dom : "—"}
+                  {shownKpis.dom != null ? Math.round(shownKpis.dom) : "—"}
                 </p>
+                <SourceNote label={kpiSource("dom")} />
               </div>
             </section>
 
+            {/* Market tightness (Redfin) */}
+            {redfin && tightness && (
+              <section className="mt-4 border border-white/15 bg-white/5 p-4">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="text-sm text-white/75">Market tightness</p>
+                  <p className="text-[10px] text-white/45">{tightnessSource}</p>
+                </div>
+                <div className="mt-3 grid gap-3 grid-cols-2 lg:grid-cols-4">
+                  <TightnessStat
+                    label="Inventory"
+                    value={tightness.inventory?.toLocaleString()}
+                  />
+                  <TightnessStat
+                    label="Months of supply"
+                    value={tightness.monthsOfSupply?.toFixed(1)}
+                  />
+                  <TightnessStat
+                    label="Sale-to-list"
+                    value={
+                      tightness.saleToList != null
+                        ? `${(tightness.saleToList * 100).toFixed(1)}%`
+                        : undefined
+                    }
+                  />
+                  <TightnessStat
+                    label="Sold above list"
+                    value={
+                      tightness.soldAboveList != null
+                        ? `${Math.round(tightness.soldAboveList * 100)}%`
+                        : undefined
+                    }
+                  />
+                </div>
+              </section>
+            )}
+
+            {/* Confidence */}
+            {activeConfidence && (
+              <section
+                className={`mt-4 border p-3 ${
+                  activeConfidence.overall.level === "low"
+                    ? "border-amber-500/30 bg-amber-500/10"
+                    : "border-white/15 bg-white/5"
+                }`}
+              >
+                <p className="text-[11px] uppercase tracking-[0.3em] text-white/60">
+                  Confidence ·{" "}
+                  <span className="text-white/85">
+                    {Math.round(activeConfidence.overall.score * 100)}%{" "}
+                    {activeConfidence.overall.level}
+                  </span>
+                </p>
+                <ul className="mt-2 space-y-0.5 text-[11px] text-white/60">
+                  {activeConfidence.overall.reasons.map((reason) => (
+                    <li key={reason}>· {reason}</li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
             {/* Chart + calculator block */}
             <section className="border border-white/15 bg-white/5 p-4">
               <div className="flex items-center justify-between mb-3">
@@ -278,10 +582,22 @@ export default function MarketDetailClient({ marketId }: Props) {
                     Price trend (median sale price over time)
                   </p>
                   <p className="text-[11px] text-white/55 mt-0.5">
-                    Type:{" "}
-                    <span className="font-medium uppercase text-white/80">
-                      {type === "sfh" ? "SFH" : type === "condo" ? "Condo" : "2–4 Units"}
-                    </span>{" "}
+                    {bedroomPayload ? (
+                      <>
+                        Beds:{" "}
+                        <span className="font-medium uppercase text-white/80">
+                          {bedroomLabel(bedrooms)}
+                        </span>{" "}
+                        (all property types)
+                      </>
+                    ) : (
+                      <>
+                        Type:{" "}
+                        <span className="font-medium uppercase text-white/80">
+                          {TYPES.find((t) => t.id === type)?.short}
+                        </span>
+                      </>
+                    )}{" "}
                     · Range:{" "}
                     <span className="font-medium text-white/80">
                       {timeframe === "MAX" ? "Full history" : timeframe}
@@ -295,12 +611,95 @@ export default function MarketDetailClient({ marketId }: Props) {
               </div>
 
               <div className="mt-4 border border-white/15 bg-[#0B0B0F]/40 p-3">
-                <MortgageCalculator defaultPrice={medianPrice} estimatedRent={medianRent} />
+                <PropertyEstimate onUseRent={setPropertyRent} />
+              </div>
+
+              <div className="mt-4 border border-white/15 bg-[#0B0B0F]/40 p-3">
+                <MortgageCalculator
+                  defaultPrice={medianPrice}
+                  estimatedRent={propertyRent ?? medianRent}
+                  rentSource={propertyRent != null ? "property" : "market"}
+                />
               </div>
             </section>
+
+            {/* Listings behind the medians */}
+            <div className="mt-6">
+              <ListingsTable marketId={marketId} bucket={type} />
+            </div>
           </>
         )}
       </div>
     </div>
   );
 }
+
+// Small amber tag on KPI panels backed by a low-confidence sample
+function LowConfidenceFlag({
+  assessment,
+}: {
+  assessment: ConfidenceAssessment | null | undefined;
+}) {
+  if (!assessment || assessment.level !== "low") return null;
+
+  return (
+    <span
+      title={assessment.reasons.join("\n")}
+      className="border border-amber-500/40 bg-amber-500/10 px-1.5 py-0.5 text-[10px] uppercase tracking-wider text-amber-200"
+    >
+      Low conf.
+    </span>
+  );
+}
+
+// Where a KPI came from; with a value when it's a second source's number
+function SourceNote({ label, value }: { label: string; value?: number }) {
+  return (
+    <p className="mt-1 text-[10px] text-white/45">
+      {value != null && (
+        <span className="text-white/70">
+          ${Math.round(value).toLocaleString()}{" "}
+        </span>
+      )}
+      {label}
+    </p>
+  );
+}
+
+function TightnessStat({ label, value }: { label: string; value?: string }) {
+  return (
+    <div className="border border-white/15 bg-[#0B0B0F]/40 p-3">
+      <p className="text-[10px] uppercase tracking-[0.2em] text-white/55">
+        {label}
+      </p>
+      <p className="mt-1 text-lg font-semibold text-white">{value ?? "—"}</p>
+    </div>
+  );
+}
+
+// Amber tag when sources disagree on a KPI; the tooltip lists each source's value
+function DisagreementFlag({
+  provenance,
+}: {
+  provenance: KpiProvenance | undefined;
+}) {
+  if (!provenance?.disagreement) return null;
+
+  const lines = provenance.candidates.map(
+    (c) =>
+      `${sourceLabel(c.source)}: ${Math.round(c.value).toLocaleString()} (${
+        c.deviation >= 0 ? "+" : ""
+      }${Math.round(c.deviation * 100)}%, ${formatMonth(c.asOf)})`
+  );
+
+  return (
+    <span
+      title={`All homes, vs ${provenance.sources
+        .map(sourceLabel)
+        .join(" + ")}:\n${lines.join("\n")}`}
+      className="border border-amber-500/40 bg-amber-500/10 px-1.5 py-0.5 text-[10px] uppercase tracking-wider text-amber-200"
+    >
+      Sources differ
+    </span>
+  );
+}
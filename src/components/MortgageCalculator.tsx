@@ -4,7 +4,8 @@ import { useMemo, useState } from "react";
 
 type MortgageCalculatorProps = {
   defaultPrice?: number | null;
-  estimatedRent?: number | null; // from snapshot.kpis.medianRent
+  estimatedRent?: number | null; // from snapshot.kpis.medianRent or an address estimate
+  rentSource?: "market" | "property";
 };
 
 const num = (s: string) => {
@@ -29,6 +30,7 @@ const sanitizeNumberInput = (raw: string) => {
 export default function MortgageCalculator({
   defaultPrice,
   estimatedRent,
+  rentSource = "market",
 }: MortgageCalculatorProps) {
   // ✅ store as strings so empty stays empty
   const [purchasePrice, setPurchasePrice] = useState<string>(
@@ -179,7 +181,7 @@ export default function MortgageCalculator({
             <span className="text-sm text-white/60">
               {estimatedRent && estimatedRent > 0 ? (
                 <>
-                  Rent est{" "}
+                  {rentSource === "property" ? "Property rent" : "Rent est"}{" "}
                   <span className="font-medium text-white/85">
                     {formatCurrencyExact(estimatedRent)}
                   </span>
@@ -393,8 +395,17 @@ export default function MortgageCalculator({
           <div className="border border-white/15 bg-[#0B0B0F]/25 p-5">
             <h3 className="text-sm font-semibold text-white">Quick Read</h3>
             <p className="mt-2 text-sm text-white/60">
-              The circle compares your <span className="text-white/85">PITI</span> to the market’s{" "}
-              <span className="text-white/85">median rent</span>. Green means your payment is comfortably
+              The circle compares your <span className="text-white/85">PITI</span> to{" "}
+              {rentSource === "property" ? (
+                <>
+                  the <span className="text-white/85">property rent estimate</span>.
+                </>
+              ) : (
+                <>
+                  the market’s <span className="text-white/85">median rent</span>.
+                </>
+              )}{" "}
+              Green means your payment is comfortably
               under rent, amber is close, and red is above.
             </p>
           </div>
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+
+type Comparable = {
+  id: string;
+  formattedAddress?: string | null;
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  squareFootage?: number | null;
+  price?: number | null;
+  distance?: number | null;
+};
+
+type EstimateRange = {
+  estimate: number | null;
+  low: number | null;
+  high: number | null;
+  comparables: Comparable[] | null;
+};
+
+type EstimateApiResponse = {
+  cached: boolean;
+  estimate: {
+    address: string;
+    fetchedAt: string;
+    rent: EstimateRange;
+    value: EstimateRange;
+  };
+};
+
+type PropertyEstimateProps = {
+  // Called with the property rent when "use in calculator" is on, null when off
+  onUseRent: (rent: number | null) => void;
+};
+
+// Show the closest few; the API returns up to 10 per estimate
+const MAX_COMPS = 5;
+
+const formatCurrency = (value: number | null | undefined) =>
+  value != null
+    ? value.toLocaleString("en-US", {
+        style: "currency",
+        currency: "USD",
+        maximumFractionDigits: 0,
+      })
+    : "—";
+
+export default function PropertyEstimate({ onUseRent }: PropertyEstimateProps) {
+  const [address, setAddress] = useState("");
+  const [data, setData] = useState<EstimateApiResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [useRent, setUseRent] = useState(true);
+
+  async function handleLookup(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const trimmed = address.trim();
+    if (trimmed.length < 5) {
+      setError("Enter a full street address.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ address: trimmed });
+      const res = await fetch(`/api/v1/estimate?${params.toString()}`);
+
+      if (!res.ok) {
+        const msg = await res.json().catch(() => null);
+        setError(msg?.error ?? "Failed to estimate this address.");
+        return;
+      }
+
+      const json = (await res.json()) as EstimateApiResponse;
+      setData(json);
+      onUseRent(useRent ? json.estimate.rent.estimate : null);
+    } catch (err) {
+      console.error(err);
+      setError("Unexpected error estimating this address.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleUseRent() {
+    const next = !useRent;
+    setUseRent(next);
+    onUseRent(next && data ? data.estimate.rent.estimate : null);
+  }
+
+  const rent = data?.estimate.rent;
+  const value = data?.estimate.value;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm text-white/75">Property estimate</p>
+        <p className="mt-0.5 text-[11px] text-white/55">
+          Rent + value for a specific address, with comparables. Uses the
+          property rent in the calculator instead of the ZIP median.
+        </p>
+      </div>
+
+      <form onSubmit={handleLookup} className="flex flex-col gap-2 sm:flex-row">
+        <input
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder="123 Main St, Scranton, PA 18504"
+          className="w-full border border-white/15 bg-transparent px-3 py-2 text-sm text-white placeholder:text-white/35 outline-none focus:border-white/40"
+        />
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-white px-4 py-2 text-sm font-medium text-black hover:bg-white/90 disabled:opacity-60 disabled:cursor-not-allowed transition"
+        >
+          {loading ? "Estimating…" : "Estimate"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+          {error}
+        </div>
+      )}
+
+      {data && rent && value && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {[
+            { label: "Rent estimate", range: rent, suffix: "/mo" },
+            { label: "Value estimate", range: value, suffix: "" },
+          ].map(({ label, range, suffix }) => (
+            <div key={label} className="border border-white/15 bg-[#0B0B0F]/40 p-3">
+              <p className="text-[11px] uppercase tracking-[0.3em] text-white/60">
+                {label}
+              </p>
+              <p className="mt-1 text-xl font-semibold text-white">
+                {formatCurrency(range.estimate)}
+                {range.estimate != null && suffix && (
+                  <span className="text-xs text-white/55">{suffix}</span>
+                )}
+              </p>
+              <p className="text-[11px] text-white/55">
+                Range {formatCurrency(range.low)} – {formatCurrency(range.high)}
+              </p>
+
+              <ul className="mt-2 space-y-1 text-[11px] text-white/60">
+                {(range.comparables ?? []).slice(0, MAX_COMPS).map((c) => (
+                  <li key={c.id} className="flex justify-between gap-2">
+                    <span className="truncate">
+                      {c.formattedAddress ?? "Comparable"}
+                      {c.bedrooms != null && ` · ${c.bedrooms}bd`}
+                      {c.distance != null && ` · ${c.distance.toFixed(1)}mi`}
+                    </span>
+                    <span className="text-white/80">{formatCurrency(c.price)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data && (
+        <label className="flex items-center gap-2 text-xs text-white/70">
+          <input type="checkbox" checked={useRent} onChange={toggleUseRent} />
+          Use property rent in the calculator
+          <span className="text-white/45">
+            {data.cached ? "· cached" : "· fresh"} ·{" "}
+            {new Date(data.estimate.fetchedAt).toLocaleDateString()}
+          </span>
+        </label>
+      )}
+    </div>
+  );
+}
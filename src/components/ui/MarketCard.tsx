@@ -102,6 +102,38 @@ export function MarketCard({ market, onHide }: MarketCardProps) {
                 <span className="text-white/85">
                   {market.summary.dom}
                 </span>
+                {market.summary.domTrend != null && (
+                  <span className="text-white/50">
+                    {" "}
+                    {market.summary.domTrend > 0 ? "▲" : "▼"}{" "}
+                    {Math.abs(market.summary.domTrend * 100).toFixed(0)}%
+                  </span>
+                )}
+              </p>
+            )}
+
+            {/* Market tightness (Redfin) */}
+            {market.tightness?.monthsOfSupply != null && (
+              <p className="text-white/65">
+                Months of supply{" "}
+                <span className="text-white/85">
+                  {market.tightness.monthsOfSupply.toFixed(1)}
+                </span>
+              </p>
+            )}
+
+            {market.tightness?.saleToList != null && (
+              <p className="text-white/65">
+                Sale-to-list{" "}
+                <span className="text-white/85">
+                  {(market.tightness.saleToList * 100).toFixed(1)}%
+                </span>
+                {market.tightness.soldAboveList != null && (
+                  <span className="text-white/50">
+                    {" "}
+                    · {Math.round(market.tightness.soldAboveList * 100)}% above list
+                  </span>
+                )}
               </p>
             )}
           </div>
@@ -0,0 +1,26 @@
+// src/config/budgets.ts
+import { z } from "zod";
+import { readJsonEnv } from "@/config/env";
+import { BUDGET_PERIODS, type BudgetPolicy } from "@/domain/budget";
+
+// Call budgets for metered providers (see lib/budget.ts). A ProviderBudget
+// row in the database wins, so limits can change without a deploy.
+// Override with PROVIDER_BUDGETS_JSON ({"rentcast":{"limit":100,"period":"month"}}).
+const DEFAULT_PROVIDER_BUDGETS: Record<string, BudgetPolicy> = {
+  rentcast: { limit: 50, period: "month" },
+};
+
+const BUDGETS_OVERRIDE = z.record(
+  z.string(),
+  z.strictObject({
+    limit: z.number().int().min(0),
+    period: z.enum(BUDGET_PERIODS),
+  })
+);
+
+function loadProviderBudgets(): Record<string, BudgetPolicy> {
+  const override = readJsonEnv("PROVIDER_BUDGETS_JSON", BUDGETS_OVERRIDE);
+  return { ...DEFAULT_PROVIDER_BUDGETS, ...override };
+}
+
+export const PROVIDER_BUDGETS = loadProviderBudgets();
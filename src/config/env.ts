@@ -0,0 +1,37 @@
+// src/config/env.ts
+import type { z } from "zod";
+
+/**
+ * Read a JSON config override from an env var and validate it. Unset gives
+ * undefined; invalid JSON or a value that doesn't match the schema is
+ * logged and ignored, so callers fall back to their defaults instead of
+ * throwing at import and taking down every route that loads the config.
+ */
+export function readJsonEnv<T>(
+  name: string,
+  schema: z.ZodType<T>
+): T | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (e) {
+    console.warn(
+      `[config] Ignoring ${name}: not valid JSON (${(e as Error).message}); using defaults`
+    );
+    return undefined;
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    console.warn(
+      `[config] Ignoring ${name}: ${parsed.error.issues
+        .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+        .join("; ")}; using defaults`
+    );
+    return undefined;
+  }
+  return parsed.data;
+}
@@ -0,0 +1,59 @@
+// src/config/fusion.ts
+import { z } from "zod";
+import { readJsonEnv } from "@/config/env";
+import { FUSED_KPIS, type FusionConfig } from "@/domain/fusion";
+
+// How /summary combines sources per KPI (see domain/fusion.ts).
+// RentCast and fixture data are listing medians; Zillow ZHVI/ZORI are
+// smoothed "typical" indexes, so they only win when RentCast is stale/missing.
+// Override with FUSION_CONFIG_JSON (same shape, merged per KPI).
+const DEFAULT_FUSION_CONFIG: FusionConfig = {
+  kpis: {
+    medianPrice: {
+      mode: "pick",
+      sources: { rentcast: 1, fixture: 1, redfin: 0.8, zillow: 0.5 },
+      halfLifeDays: 90,
+    },
+    medianRent: {
+      mode: "pick",
+      sources: { rentcast: 1, fixture: 1, zillow: 0.6 },
+      halfLifeDays: 90,
+    },
+    ppsf: {
+      mode: "pick",
+      sources: { rentcast: 1, fixture: 1, redfin: 0.8 },
+      halfLifeDays: 90,
+    },
+    dom: {
+      mode: "pick",
+      sources: { rentcast: 1, fixture: 1, redfin: 0.9 },
+      halfLifeDays: 60,
+    },
+  },
+  disagreementThreshold: 0.15,
+};
+
+const KPI_FUSION_RULE = z.strictObject({
+  mode: z.enum(["pick", "blend"]),
+  sources: z.record(z.string(), z.number().min(0)),
+  halfLifeDays: z.number().positive(),
+});
+
+const FUSION_OVERRIDE = z.strictObject({
+  kpis: z.partialRecord(z.enum(FUSED_KPIS), KPI_FUSION_RULE).optional(),
+  disagreementThreshold: z.number().positive().optional(),
+});
+
+function loadFusionConfig(): FusionConfig {
+  const override = readJsonEnv("FUSION_CONFIG_JSON", FUSION_OVERRIDE);
+  if (!override) return DEFAULT_FUSION_CONFIG;
+
+  return {
+    kpis: { ...DEFAULT_FUSION_CONFIG.kpis, ...override.kpis },
+    disagreementThreshold:
+      override.disagreementThreshold ??
+      DEFAULT_FUSION_CONFIG.disagreementThreshold,
+  };
+}
+
+export const FUSION_CONFIG = loadFusionConfig();
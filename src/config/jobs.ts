@@ -0,0 +1,28 @@
+// src/config/jobs.ts
+
+// Attempts before a job is dead-lettered (per-enqueue override: maxAttempts)
+export const JOB_MAX_ATTEMPTS = 3;
+
+// Retry n waits JOB_BACKOFF_SECONDS × 2^(n-1)
+export const JOB_BACKOFF_SECONDS = 30;
+
+// How often a worker reports it's alive and extends the lock on the job in
+// hand, so long jobs (scheduler runs, big imports) aren't claimed twice
+export const WORKER_HEARTBEAT_SECONDS = 30;
+
+// A running job with no heartbeat in this long is presumed lost (crash,
+// deploy) and can be claimed again
+export const JOB_LOCK_TIMEOUT_MINUTES = 5;
+
+// With no worker heartbeat this recent, routes run the jobs they queue
+// themselves after responding (deployments without `npm run worker`)
+export const WORKER_LIVENESS_SECONDS = 120;
+
+// How long an idle worker sleeps between claim attempts
+export const WORKER_POLL_INTERVAL_MS = Number(
+  process.env.WORKER_POLL_INTERVAL_MS ?? 2000
+);
+
+// How often each worker checks for due schedules (lib/schedules.ts); only
+// the one holding the scheduler lock fires them
+export const SCHEDULE_TICK_MS = 60_000;
@@ -1,10 +1,32 @@
 // src/config/markets.ts
+import type { MarketDataProviderId } from "@/providers/types";
 
-// These should match your prisma.market ids, e.g. "city:PA:Scranton" or "zip:18508"
-export const CORE_MARKET_IDS = [
-  "zip:18504",    // Scranton
-  "zip:11368"     // Queens
-];
+// Pin a market to a specific data provider (otherwise MARKET_DATA_PROVIDER / RentCast)
+export const MARKET_PROVIDER_OVERRIDES: Record<string, MarketDataProviderId> =
+  {};
 
+function loadTtlHours(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
 
-  
\ No newline at end of file
+  // A typo must not turn into NaN, which would make everything stale
+  const hours = Number(raw);
+  if (Number.isFinite(hours) && hours > 0) return hours;
+
+  console.warn(
+    `[config] Ignoring ${name}="${raw}" (expected a positive number); using ${fallback}`
+  );
+  return fallback;
+}
+
+// Hours a provider snapshot stays fresh before reads trigger a refresh
+export const DEFAULT_SNAPSHOT_TTL_HOURS = loadTtlHours(
+  "SNAPSHOT_TTL_HOURS",
+  24
+);
+
+// Hours a market's listings stay fresh; pulling sooner is a no-op
+export const LISTINGS_TTL_HOURS = loadTtlHours("LISTINGS_TTL_HOURS", 24);
+
+// Per-market TTL overrides, e.g. { "zip:18504": 72 } for a slow market
+export const MARKET_TTL_HOURS: Record<string, number> = {};
@@ -0,0 +1,47 @@
+// src/config/quality.ts
+import { z } from "zod";
+import { readJsonEnv } from "@/config/env";
+import { CHECKED_KPIS, type QualityRules } from "@/domain/quality";
+
+// Ingest checks for provider snapshots (see domain/quality.ts). Bounds are
+// deliberately wide: they catch broken payloads, not expensive ZIPs.
+// Override with QUALITY_RULES_JSON (same shape, merged per key).
+const DEFAULT_QUALITY_RULES: QualityRules = {
+  bounds: {
+    medianPrice: { min: 10_000, max: 50_000_000 },
+    medianRent: { min: 200, max: 100_000 },
+    ppsf: { min: 5, max: 10_000 },
+    dom: { min: 0, max: 1_000 },
+  },
+  maxJump: 0.4,
+  jumpWindowDays: 45,
+  rentToPrice: { min: 0.002, max: 0.03 },
+  minSampleSize: 5,
+};
+
+const RANGE = z.strictObject({ min: z.number(), max: z.number() });
+
+const QUALITY_OVERRIDE = z.strictObject({
+  bounds: z.partialRecord(z.enum(CHECKED_KPIS), RANGE).optional(),
+  maxJump: z.number().positive().optional(),
+  jumpWindowDays: z.number().positive().optional(),
+  rentToPrice: RANGE.optional(),
+  minSampleSize: z.number().int().min(0).optional(),
+});
+
+function loadQualityRules(): QualityRules {
+  const override = readJsonEnv("QUALITY_RULES_JSON", QUALITY_OVERRIDE);
+  if (!override) return DEFAULT_QUALITY_RULES;
+
+  return {
+    ...DEFAULT_QUALITY_RULES,
+    ...override,
+    bounds: { ...DEFAULT_QUALITY_RULES.bounds, ...override.bounds },
+  };
+}
+
+export const QUALITY_RULES = loadQualityRules();
+
+// A quarantined refresh counts as the market's latest attempt for this long,
+// so requests don't keep re-fetching (and re-paying for) the same bad payload
+export const QUARANTINE_RETRY_HOURS = 24;
@@ -0,0 +1,35 @@
+// src/config/retention.ts
+import { z } from "zod";
+import { readJsonEnv } from "@/config/env";
+import type { RetentionPolicy } from "@/domain/retention";
+
+// How long Snapshot rows are kept (see domain/retention.ts): everything for
+// 90 days, then the last snapshot of each month for two years, then one per
+// quarter. History lives in SeriesPoint, so pruning only loses KPI rows.
+// Override with RETENTION_POLICY_JSON (same shape, replaces the tiers).
+const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  tiers: [
+    { maxAgeDays: 90, keep: "all" },
+    { maxAgeDays: 730, keep: "month" },
+    { maxAgeDays: null, keep: "quarter" },
+  ],
+};
+
+const RETENTION_OVERRIDE = z.strictObject({
+  tiers: z
+    .array(
+      z.strictObject({
+        maxAgeDays: z.number().positive().nullable(),
+        keep: z.enum(["all", "month", "quarter", "year"]),
+      })
+    )
+    .min(1)
+    .optional(),
+});
+
+function loadRetentionPolicy(): RetentionPolicy {
+  const override = readJsonEnv("RETENTION_POLICY_JSON", RETENTION_OVERRIDE);
+  return { tiers: override?.tiers ?? DEFAULT_RETENTION_POLICY.tiers };
+}
+
+export const RETENTION_POLICY = loadRetentionPolicy();
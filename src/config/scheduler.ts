@@ -0,0 +1,48 @@
+// src/config/scheduler.ts
+import { z } from "zod";
+import { readJsonEnv } from "@/config/env";
+import type { RefreshSchedulerConfig } from "@/domain/refreshPriority";
+
+// How the refresh scheduler ranks markets and how much budget it may spend
+// (see domain/refreshPriority.ts). Override with REFRESH_SCHEDULER_JSON
+// (same shape, merged per key).
+const DEFAULT_REFRESH_SCHEDULER: RefreshSchedulerConfig = {
+  weights: { staleness: 0.5, views: 0.3, volatility: 0.2 },
+  // Snapshot age / TTL past which a market gets no more urgent
+  stalenessCap: 4,
+  // Mean |pctChange| that counts as fully volatile (0.05 = 5% per refresh)
+  volatilityScale: 0.05,
+  volatilityWindowDays: 90,
+  // Calls per period left for on-demand reads (adding a market, listings)
+  reserveCalls: 10,
+  maxPerRun: 20,
+};
+
+const SCHEDULER_OVERRIDE = z.strictObject({
+  weights: z
+    .strictObject({
+      staleness: z.number().min(0),
+      views: z.number().min(0),
+      volatility: z.number().min(0),
+    })
+    .partial()
+    .optional(),
+  stalenessCap: z.number().positive().optional(),
+  volatilityScale: z.number().positive().optional(),
+  volatilityWindowDays: z.number().int().positive().optional(),
+  reserveCalls: z.number().int().min(0).optional(),
+  maxPerRun: z.number().int().min(0).optional(),
+});
+
+function loadRefreshScheduler(): RefreshSchedulerConfig {
+  const override = readJsonEnv("REFRESH_SCHEDULER_JSON", SCHEDULER_OVERRIDE);
+  if (!override) return DEFAULT_REFRESH_SCHEDULER;
+
+  return {
+    ...DEFAULT_REFRESH_SCHEDULER,
+    ...override,
+    weights: { ...DEFAULT_REFRESH_SCHEDULER.weights, ...override.weights },
+  };
+}
+
+export const REFRESH_SCHEDULER = loadRefreshScheduler();
@@ -0,0 +1,147 @@
+// src/domain/budget.ts (pure functions)
+
+export const BUDGET_PERIODS = ["day", "month"] as const;
+
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+export type BudgetPolicy = {
+  // Calls allowed per period
+  limit: number;
+  period: BudgetPeriod;
+};
+
+/** Key of the (UTC) period `now` falls in: "2026-10" or "2026-10-19". */
+export function budgetPeriodKey(period: BudgetPeriod, now = new Date()) {
+  const iso = now.toISOString();
+  return period === "day" ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+/** [start, end) of the (UTC) period `now` falls in. */
+export function budgetPeriodBounds(period: BudgetPeriod, now = new Date()) {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const d = now.getUTCDate();
+  return period === "day"
+    ? {
+        start: new Date(Date.UTC(y, m, d)),
+        end: new Date(Date.UTC(y, m, d + 1)),
+      }
+    : {
+        start: new Date(Date.UTC(y, m, 1)),
+        end: new Date(Date.UTC(y, m + 1, 1)),
+      };
+}
+
+// A market the refresh scheduler keeps fresh through this provider
+export type ScheduledMarket = {
+  ttlHours: number;
+  // Hours since its latest snapshot; null when it has none
+  ageHours: number | null;
+};
+
+export type BudgetForecastInput = {
+  policy: BudgetPolicy;
+  // Charged so far this period (BudgetCounter.used)
+  used: number;
+  // Scheduler runs still due this period, in order (from the cron schedules)
+  refreshRuns: Date[];
+  markets: ScheduledMarket[];
+  // The scheduler's own limits (REFRESH_SCHEDULER)
+  maxPerRun: number;
+  reserveCalls: number;
+  // Charged calls this period outside the refresh schedule (listings, AVMs)
+  unscheduledUsed: number;
+  now?: Date;
+};
+
+export type BudgetForecast = {
+  periodEnd: Date;
+  // Scheduler runs left this period
+  refreshRuns: number;
+  // Refreshes those runs would make
+  scheduledRefreshes: number;
+  // Unscheduled calls extrapolated at this period's rate so far
+  unscheduledCalls: number;
+  projected: number;
+  overLimit: boolean;
+};
+
+const HOUR_MS = 3_600_000;
+
+// Replay the scheduler's rules over its remaining runs: each run refreshes
+// the markets whose TTL has lapsed (stalest first, up to maxPerRun) and
+// stops once `affordable` calls have been spent
+function simulateRefreshes(
+  runs: Date[],
+  markets: ScheduledMarket[],
+  maxPerRun: number,
+  affordable: number,
+  now: Date
+) {
+  const lastFetched = markets.map((m) =>
+    m.ageHours == null ? -Infinity : now.getTime() - m.ageHours * HOUR_MS
+  );
+  let calls = 0;
+
+  for (const run of runs) {
+    if (calls >= affordable) break;
+
+    const due = markets
+      .map((m, i) => i)
+      .filter(
+        (i) =>
+          run.getTime() - lastFetched[i] >=
+          Math.max(1, markets[i].ttlHours) * HOUR_MS
+      )
+      .sort((a, b) => lastFetched[a] - lastFetched[b])
+      .slice(0, Math.min(maxPerRun, affordable - calls));
+
+    for (const i of due) lastFetched[i] = run.getTime();
+    calls += due.length;
+  }
+
+  return calls;
+}
+
+/**
+ * Calls a provider will have used by the end of the current period: what's
+ * charged already, what the refresh scheduler's remaining runs would
+ * refresh, and other calls at their observed rate. Like the scheduler, the
+ * scheduled part never goes past limit - reserveCalls.
+ */
+export function forecastBudget({
+  policy,
+  used,
+  refreshRuns,
+  markets,
+  maxPerRun,
+  reserveCalls,
+  unscheduledUsed,
+  now = new Date(),
+}: BudgetForecastInput): BudgetForecast {
+  const { start, end } = budgetPeriodBounds(policy.period, now);
+  const elapsedHours = Math.max(1, (now.getTime() - start.getTime()) / HOUR_MS);
+  const remainingHours = Math.max(0, (end.getTime() - now.getTime()) / HOUR_MS);
+
+  const runs = refreshRuns.filter((run) => run > now && run < end);
+  const scheduledRefreshes = simulateRefreshes(
+    runs,
+    markets,
+    maxPerRun,
+    Math.max(0, policy.limit - reserveCalls - used),
+    now
+  );
+  const unscheduledCalls = Math.round(
+    (unscheduledUsed / elapsedHours) * remainingHours
+  );
+  const projected = used + scheduledRefreshes + unscheduledCalls;
+
+  return {
+    periodEnd: end,
+    refreshRuns: runs.length,
+    scheduledRefreshes,
+    unscheduledCalls,
+    projected,
+    overLimit: projected > policy.limit,
+  };
+}
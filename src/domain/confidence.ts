@@ -0,0 +1,211 @@
+// src/domain/confidence.ts (pure functions)
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+export type ConfidenceAssessment = {
+  score: number; // 0..1
+  level: ConfidenceLevel;
+  // 95% margin of error of the median, as a fraction (0.1 = ±10%)
+  marginOfError: number | null;
+  reasons: string[];
+};
+
+// Confidence for one slice of a snapshot (overall, a property type, a bedroom count)
+export type KpiConfidence = {
+  overall: ConfidenceAssessment;
+  price: ConfidenceAssessment | null;
+  rent: ConfidenceAssessment | null;
+};
+
+export type ConfidenceInput = {
+  sampleSize: number;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  lastUpdated: Date | null;
+  // YYYY-MM keys of history months that have a value
+  historyMonths: string[];
+  now?: Date;
+};
+
+// Months of history we expect a healthy market to have
+const EXPECTED_HISTORY_MONTHS = 12;
+// Provider data is monthly; anything within this window counts as current
+const FRESH_DAYS = 35;
+// Typical log-price dispersion, used when min/max are missing
+const DEFAULT_LOG_SD = 0.5;
+
+// Weighted geometric mean: precision dominates, recency + history adjust
+const WEIGHTS = { precision: 0.6, recency: 0.25, history: 0.15 };
+
+/**
+ * Inverse standard normal CDF for p in (0.5, 1)
+ * (Abramowitz & Stegun 26.2.23, |error| < 4.5e-4).
+ */
+function upperNormalQuantile(p: number): number {
+  const t = Math.sqrt(-2 * Math.log(1 - p));
+  return (
+    t -
+    (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+      (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t)
+  );
+}
+
+/**
+ * Expected range of n normal draws in standard deviations
+ * (Blom's approximation of the expected maximum, doubled).
+ */
+function expectedRangeInSd(n: number): number {
+  return 2 * upperNormalQuantile((n - 0.375) / (n + 0.25));
+}
+
+function monthKey(d: Date) {
+  return d.toISOString().slice(0, 7);
+}
+
+function levelFor(score: number): ConfidenceLevel {
+  if (score >= 0.75) return "high";
+  if (score >= 0.5) return "medium";
+  return "low";
+}
+
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+
+/**
+ * Confidence in a median from a sample of listings.
+ *
+ *  - precision: 95% margin of error of the median. Spread is estimated from
+ *    the min/max range on a log scale (range ≈ d2(n) standard deviations),
+ *    and SE(median) ≈ 1.2533 · sd / √n, converted back to a ±% margin.
+ *  - recency: decays once lastUpdated is older than a month.
+ *  - history: share of the last 12 months present in the series.
+ */
+export function assessConfidence(input: ConfidenceInput): ConfidenceAssessment {
+  const now = input.now ?? new Date();
+  const n = Math.max(0, Math.round(input.sampleSize));
+  const reasons: string[] = [];
+
+  if (n === 0 || input.median == null) {
+    return {
+      score: 0.1,
+      level: "low",
+      marginOfError: null,
+      reasons: ["No listings behind this number"],
+    };
+  }
+
+  // --- precision (sample size × spread) ---
+  let logSd = DEFAULT_LOG_SD;
+  const { min, max, median } = input;
+  if (n >= 2 && min != null && max != null && min > 0 && max > min) {
+    logSd = Math.log(max / min) / expectedRangeInSd(n);
+  } else {
+    reasons.push("Spread unknown; assuming typical dispersion");
+  }
+
+  // Log-scale margin converted back to a relative (±x%) margin
+  const logMargin = 1.96 * 1.2533 * (logSd / Math.sqrt(n));
+  const marginOfError = Math.exp(logMargin) - 1;
+  const precision = Math.exp(-marginOfError / 0.35);
+
+  if (n < 30) reasons.push(`Small sample (${n} listings)`);
+  if (min != null && max != null && median > 0 && (max - min) / median > 4) {
+    reasons.push(
+      `Wide spread (${Math.round(min).toLocaleString()}–${Math.round(
+        max
+      ).toLocaleString()} around a median of ${Math.round(median).toLocaleString()})`
+    );
+  }
+  if (marginOfError > 1) {
+    reasons.push("Median is highly uncertain (more than ±100% at 95% confidence)");
+  } else if (marginOfError > 0.1) {
+    reasons.push(`Median is roughly ±${pct(marginOfError)} at 95% confidence`);
+  }
+
+  // --- recency ---
+  let recency = 0.5;
+  if (input.lastUpdated && !Number.isNaN(input.lastUpdated.getTime())) {
+    const ageDays = (now.getTime() - input.lastUpdated.getTime()) / 86_400_000;
+    recency = ageDays <= FRESH_DAYS ? 1 : Math.exp(-(ageDays - FRESH_DAYS) / 90);
+    if (ageDays > FRESH_DAYS) {
+      reasons.push(`Data last updated ${Math.round(ageDays)} days ago`);
+    }
+  } else {
+    reasons.push("Unknown update date");
+  }
+
+  // --- history completeness (last 12 months up to lastUpdated) ---
+  const anchor = input.lastUpdated ?? now;
+  const present = new Set(input.historyMonths);
+  let missing = 0;
+  for (let i = 0; i < EXPECTED_HISTORY_MONTHS; i++) {
+    const d = new Date(
+      Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() - i, 1)
+    );
+    if (!present.has(monthKey(d))) missing += 1;
+  }
+  const history = Math.max(
+    0.05,
+    (EXPECTED_HISTORY_MONTHS - missing) / EXPECTED_HISTORY_MONTHS
+  );
+  if (missing > 0) {
+    reasons.push(
+      `${missing} of the last ${EXPECTED_HISTORY_MONTHS} months missing from history`
+    );
+  }
+
+  const score =
+    Math.pow(precision, WEIGHTS.precision) *
+    Math.pow(recency, WEIGHTS.recency) *
+    Math.pow(history, WEIGHTS.history);
+
+  const rounded = Math.round(score * 100) / 100;
+
+  return {
+    score: rounded,
+    level: levelFor(rounded),
+    marginOfError: Math.round(marginOfError * 1000) / 1000,
+    reasons: reasons.length ? reasons : ["Large, recent sample with complete history"],
+  };
+}
+
+/** Combine price + rent assessments into one slice-level confidence. */
+export function combineConfidence(
+  price: ConfidenceAssessment | null,
+  rent: ConfidenceAssessment | null
+): KpiConfidence {
+  const parts = [price, rent].filter(
+    (a): a is ConfidenceAssessment => a != null
+  );
+
+  if (parts.length === 0) {
+    return {
+      overall: {
+        score: 0.1,
+        level: "low",
+        marginOfError: null,
+        reasons: ["No sale or rental data"],
+      },
+      price,
+      rent,
+    };
+  }
+
+  const score =
+    Math.round((parts.reduce((sum, a) => sum + a.score, 0) / parts.length) * 100) /
+    100;
+
+  return {
+    overall: {
+      score,
+      level: levelFor(score),
+      marginOfError: null,
+      reasons: [
+        ...(price ? price.reasons.map((r) => `Price: ${r}`) : ["No sale data"]),
+        ...(rent ? rent.reasons.map((r) => `Rent: ${r}`) : ["No rental data"]),
+      ],
+    },
+    price,
+    rent,
+  };
+}
@@ -0,0 +1,163 @@
+// src/domain/cron.ts (pure functions)
+
+// Standard 5-field cron: minute hour day-of-month month day-of-week, in UTC
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // "*" in a day field; with both restricted, either one matching is enough
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+function parseField(
+  text: string,
+  { name, min, max }: (typeof FIELDS)[number]
+): Set<number> {
+  const values = new Set<number>();
+  const toInt = (raw: string) => {
+    if (!/^\d+$/.test(raw)) throw new Error(`bad ${name} "${raw}"`);
+    const n = Number(raw);
+    if (n < min || n > max) {
+      throw new Error(`${name} ${n} is outside ${min}-${max}`);
+    }
+    return n;
+  };
+
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText == null ? 1 : toInt(stepText);
+    if (step < 1) throw new Error(`${name} step must be at least 1`);
+
+    let lo: number;
+    let hi: number;
+    if (range === "*") {
+      [lo, hi] = [min, max];
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      [lo, hi] = [toInt(a), toInt(b)];
+      if (lo > hi) throw new Error(`${name} range ${range} is backwards`);
+    } else {
+      lo = toInt(range);
+      // "5/15" means from 5 every 15
+      hi = stepText == null ? lo : max;
+    }
+
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/** Parse a cron expression (or @daily-style macro); throws on bad input. */
+export function parseCron(expression: string): CronSchedule {
+  const expanded = MACROS[expression.trim()] ?? expression.trim();
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields`
+    );
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+      (part, i) => parseField(part, FIELDS[i])
+    );
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      anyDayOfMonth: parts[2] === "*",
+      anyDayOfWeek: parts[4] === "*",
+    };
+  } catch (e) {
+    throw new Error(
+      `Invalid cron expression "${expression}": ${(e as Error).message}`
+    );
+  }
+}
+
+function dayMatches(schedule: CronSchedule, t: Date) {
+  const dom = schedule.daysOfMonth.has(t.getUTCDate());
+  const dow = schedule.daysOfWeek.has(t.getUTCDay());
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+// "0 0 30 2 *" never fires; give up instead of looping forever
+const SEARCH_YEARS = 5;
+
+/**
+ * First minute strictly after `after` that the schedule fires (UTC).
+ * Skips whole months, days and hours that can't match, so a yearly
+ * schedule costs a few dozen steps, not half a million minutes.
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date {
+  const t = new Date(after);
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+
+  const limit = Date.UTC(after.getUTCFullYear() + SEARCH_YEARS, 0, 1);
+
+  while (t.getTime() < limit) {
+    if (!schedule.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return t;
+    }
+  }
+
+  throw new Error(`Cron schedule never fires within ${SEARCH_YEARS} years`);
+}
+
+/** Fire times in (after, until), oldest first; at most `limit` of them. */
+export function cronRunsBetween(
+  schedule: CronSchedule,
+  after: Date,
+  until: Date,
+  limit = 10_000
+): Date[] {
+  const runs: Date[] = [];
+  for (
+    let run = nextCronRun(schedule, after);
+    run < until && runs.length < limit;
+    run = nextCronRun(schedule, run)
+  ) {
+    runs.push(run);
+  }
+  return runs;
+}
@@ -0,0 +1,172 @@
+// src/domain/fusion.ts (pure functions)
+
+export const FUSED_KPIS = ["medianPrice", "medianRent", "ppsf", "dom"] as const;
+
+export type FusedKpi = (typeof FUSED_KPIS)[number];
+
+export type KpiFusionRule = {
+  // "pick": highest effective weight wins; "blend": weighted average
+  mode: "pick" | "blend";
+  // Precedence weight per source; sources not listed are ignored for this KPI
+  sources: Record<string, number>;
+  // A source's weight halves every halfLifeDays past its asOf
+  halfLifeDays: number;
+};
+
+export type FusionConfig = {
+  kpis: Record<FusedKpi, KpiFusionRule>;
+  // Flag when a source deviates from the fused value by more than this (0.15 = 15%)
+  disagreementThreshold: number;
+};
+
+export type FusionInput = {
+  source: string;
+  asOf: Date;
+  kpis: Partial<Record<FusedKpi, number | null>>;
+};
+
+export type KpiCandidate = {
+  source: string;
+  value: number;
+  asOf: string;
+  // precedence × freshness, before normalisation
+  weight: number;
+  // (value - fused) / fused
+  deviation: number;
+};
+
+export type KpiProvenance = {
+  value: number | null;
+  mode: KpiFusionRule["mode"];
+  // winning source for "pick"; every contributing source for "blend"
+  sources: string[];
+  asOf: string | null;
+  candidates: KpiCandidate[];
+  disagreement: {
+    maxDeviation: number;
+    sources: string[];
+  } | null;
+};
+
+export type FusedKpis = {
+  kpis: Record<FusedKpi, number | null>;
+  provenance: Record<FusedKpi, KpiProvenance>;
+  // KPIs whose sources disagree beyond the threshold
+  disagreements: FusedKpi[];
+};
+
+const DAY_MS = 86_400_000;
+
+function freshness(asOf: Date, now: Date, halfLifeDays: number) {
+  const ageDays = Math.max(0, (now.getTime() - asOf.getTime()) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function fuseKpi(
+  kpi: FusedKpi,
+  inputs: FusionInput[],
+  rule: KpiFusionRule,
+  threshold: number,
+  now: Date
+): KpiProvenance {
+  const weighted = inputs.flatMap((input) => {
+    const value = input.kpis[kpi];
+    const precedence = rule.sources[input.source];
+    if (value == null || !Number.isFinite(value) || !precedence) return [];
+    return [
+      {
+        source: input.source,
+        value,
+        asOf: input.asOf,
+        weight: precedence * freshness(input.asOf, now, rule.halfLifeDays),
+      },
+    ];
+  });
+
+  if (weighted.length === 0) {
+    return {
+      value: null,
+      mode: rule.mode,
+      sources: [],
+      asOf: null,
+      candidates: [],
+      disagreement: null,
+    };
+  }
+
+  // Heaviest first; ties keep input order (stable sort)
+  weighted.sort((a, b) => b.weight - a.weight);
+
+  let value: number;
+  let sources: string[];
+  let asOf: Date;
+
+  if (rule.mode === "blend") {
+    const total = weighted.reduce((sum, c) => sum + c.weight, 0);
+    value = weighted.reduce((sum, c) => sum + c.value * c.weight, 0) / total;
+    sources = weighted.map((c) => c.source);
+    asOf = new Date(Math.max(...weighted.map((c) => c.asOf.getTime())));
+  } else {
+    value = weighted[0].value;
+    sources = [weighted[0].source];
+    asOf = weighted[0].asOf;
+  }
+
+  const candidates: KpiCandidate[] = weighted.map((c) => ({
+    source: c.source,
+    value: c.value,
+    asOf: c.asOf.toISOString(),
+    weight: Math.round(c.weight * 1000) / 1000,
+    deviation:
+      value !== 0 ? Math.round(((c.value - value) / value) * 1000) / 1000 : 0,
+  }));
+
+  const outliers = candidates.filter((c) => Math.abs(c.deviation) > threshold);
+  const maxDeviation = Math.max(...candidates.map((c) => Math.abs(c.deviation)));
+
+  return {
+    value,
+    mode: rule.mode,
+    sources,
+    asOf: asOf.toISOString(),
+    candidates,
+    disagreement:
+      outliers.length > 0
+        ? { maxDeviation, sources: outliers.map((c) => c.source) }
+        : null,
+  };
+}
+
+/**
+ * Combine the latest snapshot from each source into one set of KPIs.
+ *
+ * Each KPI is resolved on its own: a candidate's weight is its configured
+ * precedence times an exponential freshness decay, so a stale preferred
+ * source can lose to a fresh secondary one. Every KPI carries provenance
+ * (who won, who else reported what) and a disagreement flag when any source
+ * is further than the threshold from the fused value.
+ */
+export function fuseKpis(
+  inputs: FusionInput[],
+  config: FusionConfig,
+  now = new Date()
+): FusedKpis {
+  const kpis = {} as Record<FusedKpi, number | null>;
+  const provenance = {} as Record<FusedKpi, KpiProvenance>;
+  const disagreements: FusedKpi[] = [];
+
+  for (const kpi of FUSED_KPIS) {
+    const result = fuseKpi(
+      kpi,
+      inputs,
+      config.kpis[kpi],
+      config.disagreementThreshold,
+      now
+    );
+    kpis[kpi] = result.value;
+    provenance[kpi] = result;
+    if (result.disagreement) disagreements.push(kpi);
+  }
+
+  return { kpis, provenance, disagreements };
+}
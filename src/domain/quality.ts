@@ -0,0 +1,133 @@
+// src/domain/quality.ts (pure functions)
+
+export const SNAPSHOT_STATUSES = ["active", "quarantined", "rejected"] as const;
+
+export type SnapshotStatus = (typeof SNAPSHOT_STATUSES)[number];
+
+export const CHECKED_KPIS = [
+  "medianPrice",
+  "medianRent",
+  "ppsf",
+  "dom",
+] as const;
+
+export type CheckedKpi = (typeof CHECKED_KPIS)[number];
+
+export type QualityRules = {
+  // Values outside these ranges are impossible, not just unusual
+  bounds: Record<CheckedKpi, { min: number; max: number }>;
+  // Largest |change| vs the previous active snapshot (0.4 = ±40%)
+  maxJump: number;
+  // Only compare against a previous snapshot at most this many days older,
+  // so a market refreshed after a long gap isn't flagged for real drift
+  jumpWindowDays: number;
+  // Monthly median rent / median price
+  rentToPrice: { min: number; max: number };
+  // Fewest listings behind a median, per side (sale / rent)
+  minSampleSize: number;
+};
+
+export type QualityRule = "bounds" | "jump" | "rentToPrice" | "sampleSize";
+
+export type QualityIssue = {
+  rule: QualityRule;
+  kpi?: string;
+  value: number | null;
+  message: string;
+};
+
+export type QualityInput = {
+  asOf: Date;
+  kpis: Partial<Record<CheckedKpi, number | null>>;
+  // Listings behind the medians, when the provider reports it
+  sampleSize?: { sale?: number | null; rent?: number | null } | null;
+};
+
+const DAY_MS = 86_400_000;
+
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+
+function value(kpis: QualityInput["kpis"], kpi: CheckedKpi): number | null {
+  const v = kpis[kpi];
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/**
+ * Validate a snapshot before it is stored. An empty result means it can go
+ * live; anything else sends it to quarantine for an admin to review.
+ *
+ *  - bounds: KPI outside its plausible range (negative DOM, a $50 median)
+ *  - jump: KPI moved more than maxJump since the previous active snapshot
+ *  - rentToPrice: monthly rent / price outside the usual band
+ *  - sampleSize: a median built from fewer than minSampleSize listings
+ */
+export function checkSnapshotQuality(
+  next: QualityInput,
+  previous: QualityInput | null,
+  rules: QualityRules
+): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+
+  for (const kpi of CHECKED_KPIS) {
+    const v = value(next.kpis, kpi);
+    if (v == null) continue;
+    const { min, max } = rules.bounds[kpi];
+    if (v < min || v > max) {
+      issues.push({
+        rule: "bounds",
+        kpi,
+        value: v,
+        message: `${kpi} ${v} is outside ${min}–${max}`,
+      });
+    }
+  }
+
+  const gapDays = previous
+    ? (next.asOf.getTime() - previous.asOf.getTime()) / DAY_MS
+    : Infinity;
+
+  if (previous && gapDays <= rules.jumpWindowDays) {
+    for (const kpi of CHECKED_KPIS) {
+      const prev = value(previous.kpis, kpi);
+      const curr = value(next.kpis, kpi);
+      if (prev == null || curr == null || prev === 0) continue;
+      const change = (curr - prev) / Math.abs(prev);
+      if (Math.abs(change) > rules.maxJump) {
+        issues.push({
+          rule: "jump",
+          kpi,
+          value: curr,
+          message: `${kpi} moved ${change > 0 ? "+" : ""}${pct(change)} (${prev} → ${curr}); limit ±${pct(rules.maxJump)}`,
+        });
+      }
+    }
+  }
+
+  const price = value(next.kpis, "medianPrice");
+  const rent = value(next.kpis, "medianRent");
+  if (price && rent) {
+    const ratio = rent / price;
+    const { min, max } = rules.rentToPrice;
+    if (ratio < min || ratio > max) {
+      issues.push({
+        rule: "rentToPrice",
+        value: ratio,
+        message: `Rent-to-price ${(ratio * 100).toFixed(2)}% is outside ${(min * 100).toFixed(2)}–${(max * 100).toFixed(2)}%`,
+      });
+    }
+  }
+
+  for (const side of ["sale", "rent"] as const) {
+    const n = next.sampleSize?.[side];
+    if (n != null && n < rules.minSampleSize) {
+      issues.push({
+        rule: "sampleSize",
+        kpi: side === "sale" ? "medianPrice" : "medianRent",
+        value: n,
+        message: `Only ${n} ${side} listing${n === 1 ? "" : "s"} (minimum ${rules.minSampleSize})`,
+      });
+    }
+  }
+
+  return issues;
+}
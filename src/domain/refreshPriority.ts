@@ -0,0 +1,108 @@
+// src/domain/refreshPriority.ts (pure functions)
+
+export type RefreshSchedulerConfig = {
+  // Relative weight of each signal; each signal is scaled to 0..1 first
+  weights: { staleness: number; views: number; volatility: number };
+  stalenessCap: number;
+  volatilityScale: number;
+  volatilityWindowDays: number;
+  reserveCalls: number;
+  maxPerRun: number;
+};
+
+export type RefreshCandidate = {
+  marketId: string;
+  provider: string;
+  // Whether refreshing costs budget
+  metered: boolean;
+  // Hours since the latest active provider snapshot; null when there is none
+  ageHours: number | null;
+  ttlHours: number;
+  viewCount: number;
+  // Mean |pctChange| of recent changes; null without history
+  volatility: number | null;
+};
+
+export type RefreshDecision = "planned" | "fresh" | "over_budget" | "run_limit";
+
+export type RankedRefresh = RefreshCandidate & {
+  rank: number;
+  score: number;
+  // ageHours / ttlHours (>= 1 means due); null when never fetched
+  staleness: number | null;
+  decision: RefreshDecision;
+};
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+function scoreCandidate(
+  candidate: RefreshCandidate,
+  maxViews: number,
+  config: RefreshSchedulerConfig
+) {
+  const staleness =
+    candidate.ageHours == null
+      ? null
+      : candidate.ageHours / Math.max(1, candidate.ttlHours);
+
+  // Never fetched counts as maximally stale
+  const stale =
+    staleness == null ? 1 : clamp01(staleness / config.stalenessCap);
+  // Log scale so one very popular market doesn't flatten the rest
+  const views =
+    maxViews > 0 ? Math.log1p(candidate.viewCount) / Math.log1p(maxViews) : 0;
+  const volatile = clamp01(
+    (candidate.volatility ?? 0) / config.volatilityScale
+  );
+
+  const { weights } = config;
+  const score =
+    weights.staleness * stale +
+    weights.views * views +
+    weights.volatility * volatile;
+
+  return { staleness, score: Math.round(score * 1000) / 1000 };
+}
+
+/**
+ * Rank every candidate and decide which ones this run refreshes.
+ *
+ * Markets are ordered by a weighted score of staleness, views and
+ * volatility. Walking down that order, a market still within its TTL is
+ * skipped as fresh; a due one is planned while the run limit and (for
+ * metered providers) the provider's affordable calls last.
+ */
+export function planRefreshes(
+  candidates: RefreshCandidate[],
+  affordable: Record<string, number>,
+  config: RefreshSchedulerConfig
+): RankedRefresh[] {
+  const maxViews = Math.max(0, ...candidates.map((c) => c.viewCount));
+  const left = { ...affordable };
+  let planned = 0;
+
+  return candidates
+    .map((candidate) => ({
+      ...candidate,
+      ...scoreCandidate(candidate, maxViews, config),
+    }))
+    .sort((a, b) => b.score - a.score || a.marketId.localeCompare(b.marketId))
+    .map((candidate, i) => {
+      let decision: RefreshDecision;
+      if (candidate.staleness != null && candidate.staleness < 1) {
+        decision = "fresh";
+      } else if (planned >= config.maxPerRun) {
+        decision = "run_limit";
+      } else if (candidate.metered && (left[candidate.provider] ?? 0) <= 0) {
+        decision = "over_budget";
+      } else {
+        decision = "planned";
+        planned += 1;
+        if (candidate.metered) left[candidate.provider] -= 1;
+      }
+
+      return { ...candidate, rank: i + 1, decision };
+    });
+}
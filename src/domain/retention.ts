@@ -0,0 +1,102 @@
+// src/domain/retention.ts (pure functions)
+
+export type RetentionGranularity = "all" | "month" | "quarter" | "year";
+
+export type RetentionTier = {
+  // Applies to snapshots younger than this (by asOf); null = no upper bound
+  maxAgeDays: number | null;
+  keep: RetentionGranularity;
+};
+
+export type RetentionPolicy = {
+  // Youngest first; snapshots older than every tier are dropped
+  tiers: RetentionTier[];
+};
+
+export type RetentionCandidate = {
+  id: number;
+  marketId: string;
+  source: string;
+  propertyType: string | null;
+  asOf: Date;
+};
+
+export type RetentionPlan = {
+  keep: number[];
+  delete: number[];
+};
+
+const DAY_MS = 86_400_000;
+
+function bucketOf(asOf: Date, keep: RetentionGranularity, id: number) {
+  const y = asOf.getUTCFullYear();
+  const m = asOf.getUTCMonth();
+  switch (keep) {
+    case "all":
+      return `id:${id}`;
+    case "month":
+      return `${y}-${m + 1}`;
+    case "quarter":
+      return `${y}-Q${Math.floor(m / 3) + 1}`;
+    case "year":
+      return `${y}`;
+  }
+}
+
+// Newest data first; ties go to the row written last
+function newer(a: RetentionCandidate, b: RetentionCandidate) {
+  return b.asOf.getTime() - a.asOf.getTime() || b.id - a.id;
+}
+
+/**
+ * Decide which snapshots to keep under a tiered policy.
+ *
+ * Snapshots are thinned per market + source + propertyType: within each
+ * tier's buckets (month, quarter, ...) only the newest one survives. The
+ * latest snapshot of every series — by asOf, which is what readers pick,
+ * and by id, which is what the freshness check sees — is always kept, even
+ * when it has aged past every tier.
+ */
+export function planRetention(
+  snapshots: RetentionCandidate[],
+  policy: RetentionPolicy,
+  now = new Date()
+): RetentionPlan {
+  const groups = new Map<string, RetentionCandidate[]>();
+  for (const s of snapshots) {
+    const key = `${s.marketId}|${s.source}|${s.propertyType ?? ""}`;
+    const group = groups.get(key) ?? [];
+    group.push(s);
+    groups.set(key, group);
+  }
+
+  const keep: number[] = [];
+  const drop: number[] = [];
+
+  for (const group of groups.values()) {
+    group.sort(newer);
+
+    const kept = new Set<number>([
+      group[0].id,
+      Math.max(...group.map((s) => s.id)),
+    ]);
+    const seen = new Set<string>();
+
+    for (const s of group) {
+      const ageDays = (now.getTime() - s.asOf.getTime()) / DAY_MS;
+      const tierIndex = policy.tiers.findIndex(
+        (t) => t.maxAgeDays == null || ageDays < t.maxAgeDays
+      );
+      if (tierIndex === -1) continue;
+
+      const bucket = `${tierIndex}:${bucketOf(s.asOf, policy.tiers[tierIndex].keep, s.id)}`;
+      if (seen.has(bucket)) continue;
+      seen.add(bucket);
+      kept.add(s.id);
+    }
+
+    for (const s of group) (kept.has(s.id) ? keep : drop).push(s.id);
+  }
+
+  return { keep, delete: drop };
+}
@@ -0,0 +1,81 @@
+// src/domain/snapshotDiff.ts (pure functions)
+
+export const DIFFED_KPIS = [
+  "medianPrice",
+  "medianRent",
+  "ppsf",
+  "dom",
+] as const;
+
+export type DiffedKpi = (typeof DIFFED_KPIS)[number];
+
+type KpiValues = Partial<Record<DiffedKpi, number | null>>;
+
+export type SnapshotKpis = {
+  kpis: KpiValues;
+  // bucket -> breakdown KPIs (sourceMeta.perType)
+  perType?: Record<string, { kpis?: KpiValues } | null | undefined>;
+};
+
+export type KpiChange = {
+  propertyType: string; // "all" or a bucket
+  kpi: DiffedKpi;
+  previous: number | null;
+  current: number | null;
+  delta: number | null;
+  pctChange: number | null;
+};
+
+function toNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function diffKpis(
+  propertyType: string,
+  previous: KpiValues | undefined,
+  current: KpiValues | undefined
+): KpiChange[] {
+  return DIFFED_KPIS.flatMap((kpi) => {
+    const prev = toNumber(previous?.[kpi]);
+    const curr = toNumber(current?.[kpi]);
+    if (prev === curr) return [];
+
+    const delta = prev != null && curr != null ? curr - prev : null;
+    // Relative to the previous value; undefined from zero
+    const pctChange = delta != null && prev ? delta / Math.abs(prev) : null;
+
+    return [
+      { propertyType, kpi, previous: prev, current: curr, delta, pctChange },
+    ];
+  });
+}
+
+/**
+ * KPI-level differences between two snapshots of the same market + source:
+ * overall KPIs as propertyType "all", then every bucket present in either
+ * snapshot. Unchanged values are skipped; appearing/disappearing values are
+ * kept with a null side and no delta.
+ */
+export function diffSnapshotKpis(
+  previous: SnapshotKpis,
+  current: SnapshotKpis
+): KpiChange[] {
+  const changes = diffKpis("all", previous.kpis, current.kpis);
+
+  const buckets = new Set([
+    ...Object.keys(previous.perType ?? {}),
+    ...Object.keys(current.perType ?? {}),
+  ]);
+
+  for (const bucket of [...buckets].sort()) {
+    changes.push(
+      ...diffKpis(
+        bucket,
+        previous.perType?.[bucket]?.kpis,
+        current.perType?.[bucket]?.kpis
+      )
+    );
+  }
+
+  return changes;
+}
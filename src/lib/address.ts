@@ -0,0 +1,46 @@
+// src/lib/address.ts
+
+// USPS-style suffix / direction abbreviations so "123 Main Street" and
+// "123 main st." share a cache key
+const ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  road: "rd",
+  drive: "dr",
+  boulevard: "blvd",
+  lane: "ln",
+  court: "ct",
+  place: "pl",
+  terrace: "ter",
+  circle: "cir",
+  highway: "hwy",
+  parkway: "pkwy",
+  apartment: "apt",
+  suite: "ste",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+};
+
+/**
+ * Normalize a free-form US street address into a stable cache key:
+ * lowercase, no periods, single spaces, ", " separators, common words
+ * abbreviated.
+ */
+export function normalizeAddress(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/\./g, "")
+    .split(",")
+    .map((part) =>
+      part
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((word) => ABBREVIATIONS[word] ?? word)
+        .join(" ")
+    )
+    .filter(Boolean)
+    .join(", ");
+}
@@ -1,19 +1,12 @@
 // src/lib/apiUsage.ts
-import { prisma } from "@/lib/prisma";
-
-const RENTCAST_MONTHLY_LIMIT = 50;
-
-function getYearMonth(d = new Date()) {
-  return { year: d.getFullYear(), month: d.getMonth() + 1 };
-}
-
-// Helper to attach HTTP status + code to errors
-function makeHttpError(message: string, status: number, code?: string) {
-  const err: any = new Error(message);
-  err.status = status;
-  if (code) err.code = code;
-  return err;
-}
+import { makeHttpError } from "@/lib/httpError";
+import {
+  withBudget,
+  type BudgetContext,
+  type BudgetFailure,
+} from "@/lib/budget";
+import { RentCastSchemaError } from "@/providers/rentcastSchemas";
+import { getRentCastMode } from "@/providers/rentcastRecorder";
 
 // Parse: "[RentCast] 429 Too Many Requests: ..."
 function parseRentcastStatus(message: string): number | null {
@@ -21,105 +14,128 @@ function parseRentcastStatus(message: string): number | null {
   return m ? Number(m[1]) : null;
 }
 
-export async function withRentCastBudget<T>(fn: () => Promise<T>): Promise<T> {
-  const { year, month } = getYearMonth();
-
-  // 1) Ensure row exists
-  await prisma.apiUsage.upsert({
-    where: { provider_year_month: { provider: "rentcast", year, month } },
-    create: { provider: "rentcast", year, month, calls: 0 },
-    update: {},
-  });
-
-  // 2) Atomic reserve (prevents races)
-  const reserved = await prisma.apiUsage.updateMany({
-    where: {
-      provider: "rentcast",
-      year,
-      month,
-      calls: { lt: RENTCAST_MONTHLY_LIMIT },
-    },
-    data: { calls: { increment: 1 } },
-  });
-
-  if (reserved.count === 0) {
-    throw makeHttpError(
-      "API quota exhausted. Cannot make new RentCast calls right now.",
-      429,
-      "RENTCAST_QUOTA_EXHAUSTED"
+// Per caller, e.g. a ZIP vs an address lookup
+type RentCastErrorOptions = {
+  // Shown when RentCast has no data (404)
+  noDataMessage?: string;
+};
+
+const NO_DATA_MESSAGE =
+  "No RentCast data available for that ZIP code. Try a nearby ZIP or a different market.";
+
+// Turn a raw provider failure into the error callers see
+function mapRentCastError(
+  e: unknown,
+  msg: string,
+  status: number | null,
+  { noDataMessage = NO_DATA_MESSAGE }: RentCastErrorOptions = {}
+) {
+  const code = (e as { code?: string } | null)?.code;
+
+  // RentCast answered (and charged us) but the payload has drifted
+  if (e instanceof RentCastSchemaError) {
+    return makeHttpError(
+      "RentCast returned data in an unexpected format. Try again later.",
+      502,
+      "RENTCAST_SCHEMA_MISMATCH"
     );
   }
 
-  // 3) Call provider outside transaction
-  try {
-    return await fn();
-  } catch (e: any) {
-    // 🔥 IMPORTANT: log & preserve the real cause
-    console.error("[withRentCastBudget] raw provider error:", e);
+  // Replay mode with no recording: surface the file we looked for as-is
+  if (code === "RENTCAST_REPLAY_MISS") {
+    return e;
+  }
 
-    const msg = String(e?.message ?? "");
-    const status = parseRentcastStatus(msg);
+  // Breaker is open: nothing was sent
+  if (code === "RENTCAST_CIRCUIT_OPEN") {
+    return makeHttpError(
+      "RentCast is temporarily unavailable. Try again in a few minutes.",
+      503,
+      "RENTCAST_CIRCUIT_OPEN"
+    );
+  }
 
-    // Refund policy (same as your intent)
-    const shouldRefund = status == null ? true : status === 429 || status >= 500;
+  // If it's a RentCast HTTP error string, forward a meaningful status
+  if (msg.startsWith("[RentCast]")) {
+    const s = status ?? 502;
 
-    if (shouldRefund) {
-      await prisma.apiUsage.update({
-        where: { provider_year_month: { provider: "rentcast", year, month } },
-        data: { calls: { decrement: 1 } },
-      });
+    // ✅ Special-case: no data for ZIP (RentCast 404 resource/not-found)
+    if (s === 404) {
+      return makeHttpError(noDataMessage, 422, "RENTCAST_NO_DATA");
     }
 
-    // If helper itself was used elsewhere and threw its own quota error
-    if (msg === "RentCast monthly call limit reached") {
-      throw makeHttpError(
-        "API quota exhausted. Cannot make new RentCast calls right now.",
+    if (s === 429) {
+      return makeHttpError(
+        "RentCast rate limit/quota hit. Try again later.",
         429,
-        "RENTCAST_QUOTA_EXHAUSTED"
+        "RENTCAST_RATE_LIMIT"
       );
     }
 
-    // If it's a RentCast HTTP error string, forward a meaningful status
-    if (msg.startsWith("[RentCast]")) {
-      const s = status ?? 502;
-    
-      // ✅ Special-case: no data for ZIP (RentCast 404 resource/not-found)
-      if (s === 404) {
-        // refund so this doesn't burn budget
-        await prisma.apiUsage.update({
-          where: { provider_year_month: { provider: "rentcast", year, month } },
-          data: { calls: { decrement: 1 } },
-        });
-    
-        throw makeHttpError(
-          "No RentCast data available for that ZIP code. Try a nearby ZIP or a different market.",
-          422,
-          "RENTCAST_NO_DATA"
-        );
-      }
-    
-      if (s === 429) {
-        throw makeHttpError(
-          "RentCast rate limit/quota hit. Try again later.",
-          429,
-          "RENTCAST_RATE_LIMIT"
-        );
-      }
-    
-      // Other 4xx/5xx → upstream issue
-      throw makeHttpError(
-        `RentCast request failed (${s}). Try again later.`,
-        502,
-        "RENTCAST_PROVIDER_ERROR"
-      );
-    }
-    
-
-    // Unknown error: include original message (critical for debugging)
-    throw makeHttpError(
-      msg ? `Upstream request failed: ${msg}` : "Upstream request failed. Try again later.",
+    // Other 4xx/5xx → upstream issue
+    return makeHttpError(
+      `RentCast request failed (${s}). Try again later.`,
       502,
-      "UPSTREAM_ERROR"
+      "RENTCAST_PROVIDER_ERROR"
     );
   }
+
+  // Unknown error: include original message (critical for debugging)
+  return makeHttpError(
+    msg
+      ? `Upstream request failed: ${msg}`
+      : "Upstream request failed. Try again later.",
+    502,
+    "UPSTREAM_ERROR"
+  );
+}
+
+// Failures RentCast didn't bill: no answer at all (network error or
+// timeout, breaker open) or an answer it doesn't charge for (404 no data,
+// 429, 5xx). Anything that failed after a billed answer (schema drift,
+// archiving, aggregation) stays charged, so the ledger matches real spend.
+function isUnbilled(e: unknown, msg: string, status: number | null) {
+  const code = (e as { code?: string } | null)?.code;
+  if (code === "RENTCAST_CIRCUIT_OPEN") return true;
+  if (msg.startsWith("[RentCast] Network error")) return true;
+  return status != null && (status === 404 || status === 429 || status >= 500);
+}
+
+// RentCast failures: map to the error callers see, and refund the unbilled
+function classifyRentCastFailure(
+  e: unknown,
+  options?: RentCastErrorOptions
+): BudgetFailure {
+  // 🔥 IMPORTANT: log & preserve the real cause
+  console.error("[withRentCastBudget] raw provider error:", e);
+
+  const msg = String((e as { message?: unknown } | null)?.message ?? "");
+  const status = parseRentcastStatus(msg);
+
+  return {
+    error: mapRentCastError(e, msg, status, options),
+    refund: isUnbilled(e, msg, status),
+  };
+}
+
+/**
+ * Charge a RentCast request to the "rentcast" budget (see withBudget) and
+ * map its errors. In RENTCAST_MODE=replay responses come from disk, so
+ * nothing is reserved, but errors are still mapped the same way.
+ */
+export async function withRentCastBudget<T>(
+  context: BudgetContext,
+  fn: () => Promise<T>,
+  options?: RentCastErrorOptions
+): Promise<T> {
+  const classify = (e: unknown) => classifyRentCastFailure(e, options);
+  if (getRentCastMode() !== "replay") {
+    return withBudget("rentcast", context, fn, classify);
+  }
+
+  try {
+    return await fn();
+  } catch (e) {
+    throw classify(e).error;
+  }
 }
@@ -0,0 +1,192 @@
+// src/lib/budget.ts
+import { PROVIDER_BUDGETS } from "@/config/budgets";
+import {
+  BUDGET_PERIODS,
+  budgetPeriodKey,
+  type BudgetPeriod,
+  type BudgetPolicy,
+} from "@/domain/budget";
+import { makeHttpError } from "@/lib/httpError";
+import { prisma } from "@/lib/prisma";
+
+// What a metered call is for; stored on its ledger entry
+export type BudgetContext = {
+  marketId?: string | null;
+  // Provider endpoint, e.g. "/v1/markets"
+  route: string;
+};
+
+export type BudgetReservation = {
+  entryId: number;
+  provider: string;
+  period: string;
+};
+
+/** A provider's budget: its ProviderBudget row, else config/budgets.ts. */
+export async function getBudgetPolicy(provider: string): Promise<BudgetPolicy> {
+  const row = await prisma.providerBudget.findUnique({ where: { provider } });
+  if (row && (BUDGET_PERIODS as readonly string[]).includes(row.period)) {
+    return { limit: row.limit, period: row.period as BudgetPeriod };
+  }
+
+  const configured = PROVIDER_BUDGETS[provider];
+  if (!configured) {
+    throw new Error(`[Budget] No budget configured for provider "${provider}"`);
+  }
+  return configured;
+}
+
+/** Calls used and left in a provider's current period. */
+export async function getBudgetStatus(provider: string, now = new Date()) {
+  const policy = await getBudgetPolicy(provider);
+  const period = budgetPeriodKey(policy.period, now);
+  const counter = await prisma.budgetCounter.findUnique({
+    where: { provider_period: { provider, period } },
+    select: { used: true },
+  });
+
+  const used = counter?.used ?? 0;
+  return {
+    policy,
+    period,
+    used,
+    remaining: Math.max(0, policy.limit - used),
+  };
+}
+
+/**
+ * Reserve one call from a provider's current period and open its ledger
+ * entry. The increment only applies while used < limit, so concurrent
+ * callers can't overshoot. Throws <PROVIDER>_QUOTA_EXHAUSTED (429) when the
+ * period is used up.
+ */
+export async function reserveBudget(
+  provider: string,
+  context: BudgetContext,
+  now = new Date()
+): Promise<BudgetReservation> {
+  const policy = await getBudgetPolicy(provider);
+  const period = budgetPeriodKey(policy.period, now);
+
+  return prisma.$transaction(async (tx) => {
+    await tx.budgetCounter.upsert({
+      where: { provider_period: { provider, period } },
+      create: { provider, period, used: 0 },
+      update: {},
+    });
+
+    const reserved = await tx.budgetCounter.updateMany({
+      where: { provider, period, used: { lt: policy.limit } },
+      data: { used: { increment: 1 } },
+    });
+
+    if (reserved.count === 0) {
+      throw makeHttpError(
+        `API quota exhausted. Cannot make new ${provider} calls right now.`,
+        429,
+        `${provider.toUpperCase()}_QUOTA_EXHAUSTED`
+      );
+    }
+
+    const entry = await tx.budgetLedgerEntry.create({
+      data: {
+        provider,
+        period,
+        marketId: context.marketId ?? null,
+        route: context.route,
+      },
+      select: { id: true },
+    });
+
+    return { entryId: entry.id, provider, period };
+  });
+}
+
+/**
+ * Close a reservation with the call's outcome. A refund gives the unit
+ * back to the period it was taken from (even if a new period has started).
+ */
+export async function settleBudget(
+  reservation: BudgetReservation,
+  outcome: "ok" | "error",
+  { refund = false, errorCode }: { refund?: boolean; errorCode?: string } = {}
+): Promise<void> {
+  const { entryId, provider, period } = reservation;
+  const settle = prisma.budgetLedgerEntry.update({
+    where: { id: entryId },
+    data: {
+      outcome,
+      errorCode: errorCode ?? null,
+      refunded: refund,
+      settledAt: new Date(),
+    },
+  });
+
+  if (!refund) {
+    await settle;
+    return;
+  }
+
+  await prisma.$transaction([
+    settle,
+    prisma.budgetCounter.update({
+      where: { provider_period: { provider, period } },
+      data: { used: { decrement: 1 } },
+    }),
+  ]);
+}
+
+// How a failed metered call is reported: the error callers see, and
+// whether the provider didn't bill it (so the unit goes back)
+export type BudgetFailure = { error: unknown; refund: boolean };
+
+function errorCodeOf(error: unknown): string | undefined {
+  return (error as { code?: string } | null)?.code;
+}
+
+/**
+ * Reserve one unit of a provider's budget for a logical request, run it,
+ * and settle its ledger entry. classifyFailure maps a provider error and
+ * decides whether it's refunded (by default nothing is). Retries belong
+ * inside fn, so a request costs one unit however many attempts it took.
+ *
+ * Settling happens outside the try around fn: if the ledger write fails
+ * after a successful call, the result is still returned and the unit
+ * stays spent (the provider billed it).
+ */
+export async function withBudget<T>(
+  provider: string,
+  context: BudgetContext,
+  fn: () => Promise<T>,
+  classifyFailure: (e: unknown) => BudgetFailure = (error) => ({
+    error,
+    refund: false,
+  })
+): Promise<T> {
+  const reservation = await reserveBudget(provider, context);
+
+  let result: T;
+  try {
+    result = await fn();
+  } catch (e) {
+    const { error, refund } = classifyFailure(e);
+    await settleBudget(reservation, "error", {
+      refund,
+      errorCode: errorCodeOf(error),
+    }).catch((settleError) =>
+      console.error(
+        `[Budget] Could not settle ${provider} entry ${reservation.entryId}:`,
+        settleError
+      )
+    );
+    throw error;
+  }
+
+  await settleBudget(reservation, "ok").catch((settleError) =>
+    console.error(
+      `[Budget] Could not settle ${provider} entry ${reservation.entryId}:`,
+      settleError
+    )
+  );
+  return result;
+}
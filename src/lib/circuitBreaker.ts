@@ -0,0 +1,62 @@
+// src/lib/circuitBreaker.ts
+
+type CircuitState = "closed" | "open" | "half-open";
+
+type CircuitBreakerOptions = {
+  // Consecutive failures before the circuit opens
+  failureThreshold: number;
+  // How long to stop calling once open
+  cooldownMs: number;
+};
+
+/**
+ * In-process circuit breaker:
+ *  - closed: calls go through, failures are counted
+ *  - open: calls are rejected until cooldownMs has passed
+ *  - half-open: one trial call; success closes, failure re-opens
+ */
+export function createCircuitBreaker({
+  failureThreshold,
+  cooldownMs,
+}: CircuitBreakerOptions) {
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+
+  return {
+    canRequest(): boolean {
+      if (state === "closed") return true;
+
+      // Cool-down over: let exactly one trial call through
+      if (state === "open" && Date.now() - openedAt >= cooldownMs) {
+        state = "half-open";
+        return true;
+      }
+
+      return false;
+    },
+
+    // ms until the circuit allows another call (0 when not open)
+    retryInMs(): number {
+      if (state !== "open") return 0;
+      return Math.max(0, cooldownMs - (Date.now() - openedAt));
+    },
+
+    recordSuccess() {
+      state = "closed";
+      failures = 0;
+    },
+
+    recordFailure() {
+      failures += 1;
+      if (state === "half-open" || failures >= failureThreshold) {
+        state = "open";
+        openedAt = Date.now();
+      }
+    },
+
+    get state() {
+      return state;
+    },
+  };
+}
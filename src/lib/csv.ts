@@ -0,0 +1,70 @@
+// src/lib/csv.ts
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import { createGunzip } from "node:zlib";
+
+/**
+ * Split one delimited line, honouring double-quoted fields ("a, b") and
+ * escaped quotes (""). Fields spanning multiple lines are not supported.
+ */
+export function parseDelimitedLine(line: string, delimiter = ","): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+type ReadDelimitedOptions = {
+  delimiter?: string;
+  // Cheap check on the raw line before it is split (the header always passes)
+  lineFilter?: (line: string) => boolean;
+};
+
+/**
+ * Stream a delimited file row by row (header row included), so multi-GB
+ * exports never sit in memory at once. `.gz` files are gunzipped on the fly.
+ */
+export async function* readDelimitedRows(
+  filePath: string,
+  { delimiter = ",", lineFilter }: ReadDelimitedOptions = {}
+): AsyncGenerator<string[]> {
+  const file = createReadStream(filePath);
+  const input = filePath.endsWith(".gz") ? file.pipe(createGunzip()) : file;
+  input.setEncoding("utf8");
+  // pipe() doesn't forward read errors (e.g. ENOENT) to the gunzip stream
+  if (input !== file) file.on("error", (e) => input.destroy(e));
+
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  let isHeader = true;
+  for await (const line of lines) {
+    if (line.trim() === "") continue;
+    if (!isHeader && lineFilter && !lineFilter(line)) continue;
+    isHeader = false;
+    yield parseDelimitedLine(line.replace(/^\uFEFF/, ""), delimiter);
+  }
+}
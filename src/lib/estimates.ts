@@ -0,0 +1,127 @@
+// src/lib/estimates.ts
+import { Prisma, type PropertyEstimate } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withRentCastBudget } from "@/lib/apiUsage";
+import { normalizeAddress } from "@/lib/address";
+import { singleFlight, withLease } from "@/lib/singleFlight";
+import {
+  fetchRentCastRentEstimate,
+  fetchRentCastValueEstimate,
+} from "@/providers/rentcast";
+
+// AVM results barely move week to week; don't spend budget re-asking
+const ESTIMATE_TTL_DAYS = Number(process.env.ESTIMATE_TTL_DAYS ?? 30);
+
+function isCacheFresh(fetchedAt: Date) {
+  return Date.now() - fetchedAt.getTime() < ESTIMATE_TTL_DAYS * 24 * 60 * 60 * 1000;
+}
+
+// Both halves unset: what a fresh fetch starts from
+const EMPTY_ESTIMATE = {
+  rent: null,
+  rentLow: null,
+  rentHigh: null,
+  value: null,
+  valueLow: null,
+  valueHigh: null,
+  rentComparables: Prisma.DbNull,
+  valueComparables: Prisma.DbNull,
+};
+
+// RentCast's 404 here means the address, not a ZIP
+const NO_ESTIMATE_MESSAGE =
+  "No RentCast estimate available for that address. Check the address or try a nearby one.";
+
+/**
+ * Rent + value estimate for an address, served from PropertyEstimate when
+ * cached. A miss costs two budget units (rent AVM + value AVM). Each half
+ * is stored as soon as it's paid for, so when the other call fails a retry
+ * only asks for what's missing.
+ *
+ * Concurrent lookups of an address are coalesced like market refreshes:
+ * callers in this process share one promise, and callers on other
+ * instances wait on a lease, then find the halves the winner stored.
+ */
+export function getPropertyEstimate(
+  address: string,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<{ estimate: PropertyEstimate; cached: boolean }> {
+  const normalizedAddress = normalizeAddress(address);
+  const key = `property-estimate:${normalizedAddress}`;
+  const requestedAt = new Date();
+
+  return singleFlight(`${key}:${refresh}`, () =>
+    withLease(key, () =>
+      fetchEstimate(address, normalizedAddress, refresh, requestedAt)
+    )
+  );
+}
+
+async function fetchEstimate(
+  address: string,
+  normalizedAddress: string,
+  refresh: boolean,
+  requestedAt: Date
+): Promise<{ estimate: PropertyEstimate; cached: boolean }> {
+  const existing = await prisma.propertyEstimate.findUnique({
+    where: { normalizedAddress },
+  });
+
+  // A refresh still reuses what a concurrent refresh fetched after it asked
+  let estimate =
+    existing &&
+    isCacheFresh(existing.fetchedAt) &&
+    (!refresh || existing.fetchedAt >= requestedAt)
+      ? existing
+      : null;
+
+  if (estimate && estimate.rent != null && estimate.value != null) {
+    return { estimate, cached: true };
+  }
+
+  // Starting over: clear both halves so a stale one isn't served as new
+  if (!estimate) {
+    const reset = { ...EMPTY_ESTIMATE, address, fetchedAt: new Date() };
+    estimate = await prisma.propertyEstimate.upsert({
+      where: { normalizedAddress },
+      create: { normalizedAddress, ...reset },
+      update: reset,
+    });
+  }
+
+  if (estimate.rent == null) {
+    const rent = await withRentCastBudget(
+      { route: "/v1/avm/rent/long-term" },
+      () => fetchRentCastRentEstimate(address),
+      { noDataMessage: NO_ESTIMATE_MESSAGE }
+    );
+    estimate = await prisma.propertyEstimate.update({
+      where: { normalizedAddress },
+      data: {
+        rent: rent.rent,
+        rentLow: rent.rentRangeLow ?? null,
+        rentHigh: rent.rentRangeHigh ?? null,
+        rentComparables: rent.comparables ?? [],
+      },
+    });
+  }
+
+  if (estimate.value == null) {
+    const value = await withRentCastBudget(
+      { route: "/v1/avm/value" },
+      () => fetchRentCastValueEstimate(address),
+      { noDataMessage: NO_ESTIMATE_MESSAGE }
+    );
+    estimate = await prisma.propertyEstimate.update({
+      where: { normalizedAddress },
+      data: {
+        value: value.price,
+        valueLow: value.priceRangeLow ?? null,
+        valueHigh: value.priceRangeHigh ?? null,
+        valueComparables: value.comparables ?? [],
+      },
+    });
+  }
+
+  return { estimate, cached: false };
+}
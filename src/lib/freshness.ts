@@ -0,0 +1,20 @@
+// src/lib/freshness.ts
+import type { Snapshot } from "@prisma/client";
+import { DEFAULT_SNAPSHOT_TTL_HOURS, MARKET_TTL_HOURS } from "@/config/markets";
+
+export function snapshotTtlHours(marketId: string): number {
+  return MARKET_TTL_HOURS[marketId] ?? DEFAULT_SNAPSHOT_TTL_HOURS;
+}
+
+/**
+ * Whether a provider snapshot is still within its market's TTL. Age counts
+ * from createdAt (when we fetched it): asOf is the provider's own update
+ * date, often days old already, which made every read look stale.
+ */
+export function isSnapshotFresh(
+  snapshot: Pick<Snapshot, "marketId" | "createdAt">,
+  now = new Date()
+): boolean {
+  const ageMs = now.getTime() - snapshot.createdAt.getTime();
+  return ageMs < snapshotTtlHours(snapshot.marketId) * 60 * 60 * 1000;
+}
@@ -0,0 +1,20 @@
+// src/lib/httpError.ts
+import { NextResponse } from "next/server";
+
+// Helper to attach HTTP status + code to errors
+export function makeHttpError(message: string, status: number, code?: string) {
+  const err: any = new Error(message);
+  err.status = status;
+  if (code) err.code = code;
+  return err;
+}
+
+// Turn a thrown error (ideally from makeHttpError) into a JSON response
+export function httpErrorResponse(e: unknown) {
+  const err = (e ?? {}) as { message?: string; code?: string; status?: number };
+
+  return NextResponse.json(
+    { error: err.message ?? "Server error", code: err.code ?? "SERVER_ERROR" },
+    { status: err.status ?? 500 }
+  );
+}
@@ -0,0 +1,24 @@
+// src/lib/indexSnapshots.ts
+import { prisma } from "@/lib/prisma";
+
+export type IndexImportResult = {
+  created: string[];
+  updated: string[];
+  // tracked markets with no rows in the file(s)
+  missing: string[];
+};
+
+/**
+ * ZIPs (without the "zip:" prefix) of markets an import should cover:
+ * the given ZIPs if they are tracked, otherwise every tracked ZIP market.
+ * Snapshot rows need the Market FK, so untracked ZIPs are never imported.
+ */
+export async function trackedZips(zips?: string[]): Promise<Set<string>> {
+  const markets = await prisma.market.findMany({
+    where: zips
+      ? { id: { in: zips.map((zip) => `zip:${zip}`) } }
+      : { id: { startsWith: "zip:" } },
+    select: { id: true },
+  });
+  return new Set(markets.map((m) => m.id.slice("zip:".length)));
+}
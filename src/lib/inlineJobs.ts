@@ -0,0 +1,21 @@
+// src/lib/inlineJobs.ts
+import type { Job } from "@prisma/client";
+import { after } from "next/server";
+import { hasLiveWorker } from "@/lib/jobs";
+
+/**
+ * Fallback for deployments without `npm run worker` (e.g. Vercel only):
+ * when no worker has reported in lately, run a job a route just queued
+ * after the response is sent. It's claimed like any other job, so a worker
+ * that picks it up first isn't raced. There is no worker to retry it, so
+ * a failed run is dead-lettered with its error (see runJobInline).
+ */
+export async function runIfNoWorker(job: Job): Promise<void> {
+  if (job.status !== "queued" || (await hasLiveWorker())) return;
+
+  after(async () => {
+    // Loaded lazily: the handlers pull in the importers
+    const { runJobInline } = await import("@/lib/jobWorker");
+    await runJobInline(job.id);
+  });
+}
@@ -0,0 +1,101 @@
+// src/lib/jobHandlers.ts
+import type { Job } from "@prisma/client";
+import { makeHttpError } from "@/lib/httpError";
+import { buildMarketDigest, deliverMarketDigest } from "@/lib/marketDigest";
+import {
+  isJobType,
+  parseJobPayload,
+  type JobPayload,
+  type JobType,
+} from "@/lib/jobs";
+import { refreshMarketSnapshot } from "@/lib/marketRefresh";
+import { importRedfinTracker } from "@/lib/redfinImport";
+import { runRefreshScheduler } from "@/lib/refreshScheduler";
+import { reprocessSnapshots } from "@/lib/reprocessSnapshots";
+import { runSnapshotRetention } from "@/lib/snapshotRetention";
+import { upsertZipMarket, ZIP_MARKET_SCOPE } from "@/lib/zipMarkets";
+import { importZillowIndexes } from "@/lib/zillowImport";
+
+type JobHandlers = {
+  [T in JobType]: (payload: JobPayload<T>) => Promise<unknown>;
+};
+
+// Return values are stored as Job.result, so keep them small
+const JOB_HANDLERS: JobHandlers = {
+  "market.refresh": async ({ marketId, propertyType, addMarket }) => {
+    const result = await refreshMarketSnapshot(marketId, {
+      dims: { propertyType },
+      // The Market row is only created once the provider call succeeded,
+      // and stays hidden until it has an active snapshot: a quarantined
+      // first fetch throws below, and approving it unhides the market
+      beforeInsert: addMarket
+        ? (tx) =>
+            tx.market.upsert({
+              where: { id: marketId },
+              update: {},
+              create: {
+                id: marketId,
+                scope: ZIP_MARKET_SCOPE,
+                hidden: true,
+              },
+            })
+        : undefined,
+    });
+
+    // Only reached with an active snapshot; fills in city/state and unhides
+    if (addMarket && marketId.startsWith("zip:")) {
+      await upsertZipMarket(marketId.slice("zip:".length));
+    }
+
+    return { snapshotId: result.snapshot.id, refreshed: result.refreshed };
+  },
+
+  "refresh.scheduler": async ({ dryRun }) => {
+    const report = await runRefreshScheduler({ dryRun, trigger: "job" });
+    return {
+      runId: report.runId,
+      planned: report.planned,
+      refreshed: report.refreshed,
+    };
+  },
+
+  "import.zillow": (payload) => importZillowIndexes(payload),
+
+  "import.redfin": (payload) => importRedfinTracker(payload),
+
+  "snapshots.retention": async (payload) => {
+    const report = await runSnapshotRetention(payload);
+    return {
+      dryRun: report.dryRun,
+      scanned: report.scanned,
+      kept: report.kept,
+      deleted: report.deleted,
+    };
+  },
+
+  "snapshots.reprocess": (payload) => reprocessSnapshots(payload),
+
+  // Sent to DIGEST_WEBHOOK_URL when set, and stored as the job's result;
+  // the latest one is at GET /api/v1/admin/digest
+  "market.digest": async (payload) => {
+    const digest = await buildMarketDigest(payload);
+    const delivered = await deliverMarketDigest(digest);
+    return { ...digest, delivered };
+  },
+};
+
+/** Run a claimed job's handler with its validated payload. */
+export function runJob(job: Job): Promise<unknown> {
+  if (!isJobType(job.type)) {
+    throw makeHttpError(
+      `Unknown job type "${job.type}"`,
+      400,
+      "UNKNOWN_JOB_TYPE"
+    );
+  }
+
+  const handler = JOB_HANDLERS[job.type] as (
+    payload: unknown
+  ) => Promise<unknown>;
+  return handler(parseJobPayload(job.type, job.payload));
+}
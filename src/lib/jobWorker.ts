@@ -0,0 +1,174 @@
+// src/lib/jobWorker.ts
+import os from "node:os";
+import type { Job } from "@prisma/client";
+import {
+  SCHEDULE_TICK_MS,
+  WORKER_HEARTBEAT_SECONDS,
+  WORKER_POLL_INTERVAL_MS,
+} from "@/config/jobs";
+import { runJob } from "@/lib/jobHandlers";
+import {
+  claimJob,
+  claimJobById,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  recordWorkerHeartbeat,
+  removeWorker,
+} from "@/lib/jobs";
+import { tickSchedules } from "@/lib/schedules";
+
+type WorkerOptions = {
+  workerId: string;
+  // Stop claiming once aborted; the job in hand is finished first
+  signal: AbortSignal;
+  // Exit as soon as the queue is empty instead of polling
+  once?: boolean;
+  pollIntervalMs?: number;
+};
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+async function tick() {
+  try {
+    const { fired } = await tickSchedules();
+    for (const f of fired) {
+      console.log(`[worker] Schedule ${f.schedule} queued job #${f.jobId}`);
+    }
+  } catch (e) {
+    console.warn(
+      "[worker] Schedule tick failed:",
+      e instanceof Error ? e.message : e
+    );
+  }
+}
+
+// Runs fn every heartbeat until the returned stop function is called;
+// a failed beat is logged and the next one tries again
+function everyHeartbeat(label: string, fn: () => Promise<void>) {
+  const timer = setInterval(() => {
+    fn().catch((e) =>
+      console.warn(
+        `[worker] ${label} heartbeat failed:`,
+        e instanceof Error ? e.message : e
+      )
+    );
+  }, WORKER_HEARTBEAT_SECONDS * 1000);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Run a claimed job to completion, keeping its lock fresh while it runs,
+ * and record the outcome (succeeded, retry later, or dead).
+ */
+async function processJob(
+  job: Job,
+  { retry = true }: { retry?: boolean } = {}
+): Promise<void> {
+  const label = `#${job.id} ${job.type} (attempt ${job.attempts}/${job.maxAttempts})`;
+  const stopHeartbeat = everyHeartbeat(label, () => heartbeatJob(job));
+  try {
+    const result = await runJob(job);
+    await completeJob(job, result);
+    console.log(`[worker] ${label} succeeded`);
+  } catch (e) {
+    const status = await failJob(job, e, { retry });
+    console.warn(
+      `[worker] ${label} failed, ${status === "dead" ? "dead-lettered" : "will retry"}:`,
+      e instanceof Error ? e.message : e
+    );
+  } finally {
+    stopHeartbeat();
+  }
+}
+
+/**
+ * Run one queued job in this process, if it's due and nobody has claimed
+ * it. Used by routes when no worker is running (lib/inlineJobs.ts). With
+ * no worker to claim a retry, a failure is final: the job goes dead with
+ * its lastError, so whoever polls it sees why.
+ */
+export async function runJobInline(id: number): Promise<void> {
+  const job = await claimJobById(id, `inline:${os.hostname()}:${process.pid}`);
+  if (job) await processJob(job, { retry: false });
+}
+
+/**
+ * Claim and run jobs one at a time until aborted, firing due schedules
+ * between jobs about once a minute. Handler errors are recorded on the job
+ * (retry or dead-letter); database errors while claiming or recording are
+ * logged and polled past. Neither stops the loop. Resolves with the number
+ * of jobs processed.
+ */
+export async function runWorker({
+  workerId,
+  signal,
+  once = false,
+  pollIntervalMs = WORKER_POLL_INTERVAL_MS,
+}: WorkerOptions): Promise<number> {
+  let processed = 0;
+  let lastTick = 0;
+
+  await recordWorkerHeartbeat(workerId);
+  const stopHeartbeat = everyHeartbeat(workerId, () =>
+    recordWorkerHeartbeat(workerId)
+  );
+
+  try {
+    while (!signal.aborted) {
+      if (Date.now() - lastTick >= SCHEDULE_TICK_MS) {
+        lastTick = Date.now();
+        await tick();
+      }
+
+      let job: Job | null;
+      try {
+        job = await claimJob(workerId);
+      } catch (e) {
+        // e.g. the database is briefly unreachable; poll again later
+        console.warn(
+          "[worker] Claim failed:",
+          e instanceof Error ? e.message : e
+        );
+        await sleep(pollIntervalMs, signal);
+        continue;
+      }
+
+      if (!job) {
+        if (once) break;
+        await sleep(pollIntervalMs, signal);
+        continue;
+      }
+
+      try {
+        await processJob(job);
+      } catch (e) {
+        // Recording the outcome failed; the lock timeout hands it back
+        console.warn(
+          `[worker] #${job.id} could not be recorded:`,
+          e instanceof Error ? e.message : e
+        );
+        await sleep(pollIntervalMs, signal);
+      }
+      processed += 1;
+    }
+  } finally {
+    stopHeartbeat();
+    // A row left behind just ages out of hasLiveWorker
+    await removeWorker(workerId).catch(() => {});
+  }
+
+  return processed;
+}
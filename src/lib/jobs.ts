@@ -0,0 +1,383 @@
+// src/lib/jobs.ts
+import { Prisma, type Job, type PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import {
+  JOB_BACKOFF_SECONDS,
+  JOB_LOCK_TIMEOUT_MINUTES,
+  JOB_MAX_ATTEMPTS,
+  WORKER_LIVENESS_SECONDS,
+} from "@/config/jobs";
+import { makeHttpError } from "@/lib/httpError";
+import { prisma } from "@/lib/prisma";
+import { PROPERTY_TYPE_BUCKETS } from "@/providers/types";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "dead"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+const zips = z.array(z.string().regex(/^\d{5}$/)).optional();
+
+// Payload per job type. Handlers live in lib/jobHandlers.ts, which only the
+// worker loads, so enqueueing from a route doesn't pull in the importers.
+export const JOB_PAYLOADS = {
+  "market.refresh": z.object({
+    marketId: z.string().min(1),
+    propertyType: z.enum(PROPERTY_TYPE_BUCKETS).optional(),
+    // New ZIP market: create its row along with the first snapshot
+    addMarket: z.boolean().default(false),
+  }),
+  "refresh.scheduler": z.object({
+    dryRun: z.boolean().default(false),
+  }),
+  "import.zillow": z
+    .object({
+      zhviFile: z.string().optional(),
+      zoriFile: z.string().optional(),
+      zips,
+    })
+    .refine(
+      (p) => p.zhviFile || p.zoriFile,
+      "zhviFile or zoriFile is required"
+    ),
+  "import.redfin": z.object({
+    file: z.string().min(1),
+    zips,
+  }),
+  "snapshots.retention": z.object({
+    dryRun: z.boolean().default(false),
+    marketId: z.string().optional(),
+  }),
+  "snapshots.reprocess": z.object({
+    dryRun: z.boolean().default(false),
+    marketId: z.string().optional(),
+  }),
+  "market.digest": z.object({
+    days: z.number().int().min(1).max(31).default(7),
+    minPct: z.number().min(0).default(0.03),
+  }),
+};
+
+export type JobType = keyof typeof JOB_PAYLOADS;
+
+export const JOB_TYPES = Object.keys(JOB_PAYLOADS) as JobType[];
+
+// What a caller passes (defaults not applied yet) / what a handler receives
+export type JobPayloadInput<T extends JobType> = z.input<
+  (typeof JOB_PAYLOADS)[T]
+>;
+export type JobPayload<T extends JobType> = z.output<(typeof JOB_PAYLOADS)[T]>;
+
+export function isJobType(value: string): value is JobType {
+  return value in JOB_PAYLOADS;
+}
+
+/** Validate a payload for its job type; INVALID_JOB_PAYLOAD (400) if not. */
+export function parseJobPayload<T extends JobType>(
+  type: T,
+  payload: unknown
+): JobPayload<T> {
+  const parsed = JOB_PAYLOADS[type].safeParse(payload);
+  if (!parsed.success) {
+    throw makeHttpError(
+      `Invalid ${type} payload: ${parsed.error.issues.map((i) => i.message).join("; ")}`,
+      400,
+      "INVALID_JOB_PAYLOAD"
+    );
+  }
+  return parsed.data as JobPayload<T>;
+}
+
+type EnqueueOptions = {
+  // While a job with this key is queued or running, enqueueing returns it
+  dedupeKey?: string;
+  // Higher is claimed first; user-facing work should jump the queue
+  priority?: number;
+  runAt?: Date;
+  maxAttempts?: number;
+  // Enqueue inside a caller's transaction
+  db?: Db;
+};
+
+/**
+ * Add a job to the queue. With a dedupeKey, a queued/running job with the
+ * same key is returned instead of adding a second one (enforced by a
+ * partial unique index, so concurrent enqueues can't both win).
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloadInput<T>,
+  {
+    dedupeKey,
+    priority = 0,
+    runAt = new Date(),
+    maxAttempts = JOB_MAX_ATTEMPTS,
+    db = prisma,
+  }: EnqueueOptions = {}
+): Promise<Job> {
+  const data = parseJobPayload(type, payload);
+
+  if (!dedupeKey) {
+    return db.job.create({
+      data: { type, payload: data, priority, runAt, maxAttempts },
+    });
+  }
+
+  // The pending job can finish between our insert and lookup; try again then
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const inserted = await db.$queryRaw<Job[]>`
+      INSERT INTO "Job" ("type", "payload", "priority", "runAt", "maxAttempts", "dedupeKey", "updatedAt")
+      VALUES (${type}, ${JSON.stringify(data)}::jsonb, ${priority}, ${runAt}, ${maxAttempts}, ${dedupeKey}, CURRENT_TIMESTAMP)
+      ON CONFLICT ("dedupeKey") WHERE "status" IN ('queued', 'running') DO NOTHING
+      RETURNING *`;
+    if (inserted[0]) return inserted[0];
+
+    const pending = await db.job.findFirst({
+      where: { dedupeKey, status: { in: ["queued", "running"] } },
+    });
+    if (pending) return pending;
+  }
+
+  throw new Error(`[Jobs] Could not enqueue ${type} (${dedupeKey})`);
+}
+
+/**
+ * Dedupe key for job types that must not overlap, whoever enqueues them
+ * (admin routes, schedules); undefined for types that may run side by side.
+ */
+export function singletonJobKey<T extends JobType>(
+  type: T,
+  payload: JobPayloadInput<T>
+): string | undefined {
+  switch (type) {
+    case "refresh.scheduler":
+      return "refresh.scheduler";
+    case "snapshots.retention": {
+      const { marketId } = parseJobPayload("snapshots.retention", payload);
+      return `snapshots.retention:${marketId ?? "all"}`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Queue a provider refresh for a market, coalesced per market. */
+export function enqueueMarketRefresh(
+  marketId: string,
+  payload: Omit<JobPayloadInput<"market.refresh">, "marketId"> = {},
+  priority = 0
+): Promise<Job> {
+  return enqueueJob(
+    "market.refresh",
+    { marketId, ...payload },
+    { dedupeKey: `market.refresh:${marketId}`, priority }
+  );
+}
+
+/**
+ * Claim the next due job for this worker. FOR UPDATE SKIP LOCKED lets any
+ * number of workers poll the same table without taking the same job or
+ * blocking on each other. Jobs whose worker went silent past the lock
+ * timeout are claimed again, or dead-lettered if out of attempts.
+ */
+export async function claimJob(workerId: string): Promise<Job | null> {
+  const staleBefore = new Date(
+    Date.now() - JOB_LOCK_TIMEOUT_MINUTES * 60 * 1000
+  );
+
+  await prisma.job.updateMany({
+    where: {
+      status: "running",
+      lockedAt: { lt: staleBefore },
+      attempts: { gte: prisma.job.fields.maxAttempts },
+    },
+    data: {
+      status: "dead",
+      lockedBy: null,
+      lockedAt: null,
+      lastError: "Worker stopped responding",
+      lastErrorCode: "JOB_LOCK_EXPIRED",
+      finishedAt: new Date(),
+    },
+  });
+
+  const claimed = await prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'running',
+        "lockedBy" = ${workerId},
+        "lockedAt" = CURRENT_TIMESTAMP,
+        "attempts" = "attempts" + 1,
+        "updatedAt" = CURRENT_TIMESTAMP
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE ("status" = 'queued' AND "runAt" <= CURRENT_TIMESTAMP)
+         OR ("status" = 'running' AND "lockedAt" < ${staleBefore})
+      ORDER BY "priority" DESC, "runAt" ASC, "id" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING *`;
+
+  return claimed[0] ?? null;
+}
+
+/**
+ * Claim one specific job, for running it in-process (lib/inlineJobs.ts).
+ * Null if it isn't due or someone else already has it.
+ */
+export async function claimJobById(
+  id: number,
+  workerId: string
+): Promise<Job | null> {
+  const claimed = await prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'running',
+        "lockedBy" = ${workerId},
+        "lockedAt" = CURRENT_TIMESTAMP,
+        "attempts" = "attempts" + 1,
+        "updatedAt" = CURRENT_TIMESTAMP
+    WHERE "id" = ${id}
+      AND "status" = 'queued'
+      AND "runAt" <= CURRENT_TIMESTAMP
+    RETURNING *`;
+
+  return claimed[0] ?? null;
+}
+
+function toJson(
+  value: unknown
+): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === undefined || value === null
+    ? Prisma.JsonNull
+    : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue);
+}
+
+// Guard: a job reclaimed after a lock timeout belongs to its new worker
+function ownedBy(job: Job): Prisma.JobWhereInput {
+  return { id: job.id, status: "running", lockedBy: job.lockedBy };
+}
+
+/** Push back the lock timeout on a job that's still being worked on. */
+export async function heartbeatJob(job: Job): Promise<void> {
+  await prisma.job.updateMany({
+    where: ownedBy(job),
+    data: { lockedAt: new Date() },
+  });
+}
+
+export async function completeJob(job: Job, result: unknown): Promise<void> {
+  await prisma.job.updateMany({
+    where: ownedBy(job),
+    data: {
+      status: "succeeded",
+      result: toJson(result),
+      lockedBy: null,
+      lockedAt: null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+// Failures another attempt can't fix: bad input, spent quota, bad data
+function isRetryable(err: { status?: number; code?: string }) {
+  if (err.code === "SNAPSHOT_QUARANTINED") return false;
+  if (err.code?.endsWith("_QUOTA_EXHAUSTED")) return false;
+  if (err.status == null) return true;
+  return err.status >= 500 || err.status === 408 || err.status === 429;
+}
+
+/**
+ * Record a failed attempt: back to queued with exponential backoff, or
+ * dead once attempts are used up or the error is permanent. With
+ * retry=false the job is dead straight away (nothing would pick it up again).
+ */
+export async function failJob(
+  job: Job,
+  error: unknown,
+  { retry = true }: { retry?: boolean } = {}
+): Promise<JobStatus> {
+  const err = (error ?? {}) as {
+    message?: string;
+    code?: string;
+    status?: number;
+  };
+  const dead = !retry || !isRetryable(err) || job.attempts >= job.maxAttempts;
+  const delayMs = JOB_BACKOFF_SECONDS * 1000 * 2 ** (job.attempts - 1);
+
+  await prisma.job.updateMany({
+    where: ownedBy(job),
+    data: {
+      status: dead ? "dead" : "queued",
+      runAt: dead ? undefined : new Date(Date.now() + delayMs),
+      lockedBy: null,
+      lockedAt: null,
+      lastError: err.message ?? String(error),
+      lastErrorCode: err.code ?? null,
+      finishedAt: dead ? new Date() : null,
+    },
+  });
+
+  return dead ? "dead" : "queued";
+}
+
+/** Put a dead job back in the queue with a fresh set of attempts. */
+export async function retryJob(id: number): Promise<Job> {
+  const job = await prisma.job.findUnique({ where: { id } });
+  if (!job) throw makeHttpError("Job not found", 404, "JOB_NOT_FOUND");
+  if (job.status !== "dead") {
+    throw makeHttpError(
+      `Only dead jobs can be retried (this one is ${job.status})`,
+      409,
+      "JOB_NOT_DEAD"
+    );
+  }
+
+  try {
+    return await prisma.job.update({
+      where: { id },
+      data: {
+        status: "queued",
+        attempts: 0,
+        runAt: new Date(),
+        finishedAt: null,
+      },
+    });
+  } catch (e) {
+    if (
+      e instanceof Prisma.PrismaClientKnownRequestError &&
+      e.code === "P2002"
+    ) {
+      throw makeHttpError(
+        "An equivalent job is already queued",
+        409,
+        "JOB_DUPLICATE"
+      );
+    }
+    throw e;
+  }
+}
+
+/** Mark a worker process as alive (called every WORKER_HEARTBEAT_SECONDS). */
+export async function recordWorkerHeartbeat(workerId: string): Promise<void> {
+  const seenAt = new Date();
+  await prisma.worker.upsert({
+    where: { id: workerId },
+    update: { seenAt },
+    create: { id: workerId, seenAt },
+  });
+}
+
+export async function removeWorker(workerId: string): Promise<void> {
+  await prisma.worker.deleteMany({ where: { id: workerId } });
+}
+
+/** Whether any worker has reported in within WORKER_LIVENESS_SECONDS. */
+export async function hasLiveWorker(now = new Date()): Promise<boolean> {
+  const live = await prisma.worker.count({
+    where: {
+      seenAt: { gte: new Date(now.getTime() - WORKER_LIVENESS_SECONDS * 1000) },
+    },
+  });
+  return live > 0;
+}
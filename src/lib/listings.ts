@@ -0,0 +1,107 @@
+// src/lib/listings.ts
+import { LISTINGS_TTL_HOURS } from "@/config/markets";
+import { prisma } from "@/lib/prisma";
+import { withRentCastBudget } from "@/lib/apiUsage";
+import {
+  fetchRentCastListings,
+  LISTINGS_PATHS,
+  mapPropertyTypeToBucket,
+  type ListingKind,
+} from "@/providers/rentcast";
+
+const LISTING_KINDS: ListingKind[] = ["sale", "rental"];
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Listing kinds a pull would fetch now: those not seen within
+ * LISTINGS_TTL_HOURS (all of them when `refresh`). Each costs one budget
+ * unit.
+ */
+export async function staleListingKinds(
+  marketId: string,
+  { refresh = false, now = new Date() }: { refresh?: boolean; now?: Date } = {}
+): Promise<ListingKind[]> {
+  if (refresh) return LISTING_KINDS;
+
+  const since = new Date(now.getTime() - LISTINGS_TTL_HOURS * 3_600_000);
+  const fresh = await prisma.listing.groupBy({
+    by: ["kind"],
+    where: { marketId, provider: "rentcast", lastSeenAt: { gte: since } },
+  });
+  const freshKinds = new Set(fresh.map((f) => f.kind));
+
+  return LISTING_KINDS.filter((kind) => !freshKinds.has(kind));
+}
+
+/**
+ * Pull active sale + rental listings for a market from RentCast and upsert
+ * them. Listings we had as Active but RentCast no longer returns are marked
+ * Inactive. Kinds seen within LISTINGS_TTL_HOURS are skipped unless
+ * `refresh`; each kind fetched costs one budget unit.
+ */
+export async function ingestListings(
+  marketId: string,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<{ counts: Partial<Record<ListingKind, number>>; charged: number }> {
+  const counts: Partial<Record<ListingKind, number>> = {};
+  const seenAt = new Date();
+  const kinds = await staleListingKinds(marketId, { refresh, now: seenAt });
+
+  for (const kind of kinds) {
+    const listings = await withRentCastBudget(
+      { marketId, route: LISTINGS_PATHS[kind] },
+      () => fetchRentCastListings(marketId, kind)
+    );
+
+    await prisma.$transaction([
+      ...listings.map((l) => {
+        const data = {
+          marketId,
+          address: l.formattedAddress ?? null,
+          propertyType: l.propertyType ?? null,
+          bucket: mapPropertyTypeToBucket(l.propertyType),
+          price: l.price,
+          beds: l.bedrooms ?? null,
+          baths: l.bathrooms ?? null,
+          sqft: l.squareFootage != null ? Math.round(l.squareFootage) : null,
+          status: l.status ?? "Active",
+          listedAt: toDate(l.listedDate),
+          daysOnMarket: l.daysOnMarket ?? null,
+          lastSeenAt: seenAt,
+        };
+
+        return prisma.listing.upsert({
+          where: {
+            provider_kind_externalId: {
+              provider: "rentcast",
+              kind,
+              externalId: l.id,
+            },
+          },
+          create: { ...data, provider: "rentcast", kind, externalId: l.id },
+          update: data,
+        });
+      }),
+      // Anything not in this pull has come off the market
+      prisma.listing.updateMany({
+        where: {
+          marketId,
+          provider: "rentcast",
+          kind,
+          status: "Active",
+          lastSeenAt: { lt: seenAt },
+        },
+        data: { status: "Inactive" },
+      }),
+    ]);
+
+    counts[kind] = listings.length;
+  }
+
+  return { counts, charged: kinds.length };
+}
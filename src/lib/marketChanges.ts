@@ -0,0 +1,55 @@
+// src/lib/marketChanges.ts
+import type { Prisma, PrismaClient, Snapshot } from "@prisma/client";
+import { diffSnapshotKpis, type SnapshotKpis } from "@/domain/snapshotDiff";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+function kpisOf(snapshot: Snapshot): SnapshotKpis {
+  const meta = (snapshot.sourceMeta ?? {}) as {
+    perType?: SnapshotKpis["perType"];
+  };
+  return {
+    kpis: (snapshot.kpis ?? {}) as SnapshotKpis["kpis"],
+    perType: meta.perType,
+  };
+}
+
+/**
+ * Diff a freshly written snapshot against the previous active one from the
+ * same market + source (and Snapshot.propertyType) and store the differences
+ * as MarketChange rows.
+ * Returns the number of changes recorded (0 for a market's first snapshot).
+ */
+export async function recordSnapshotChanges(
+  db: Db,
+  snapshot: Snapshot
+): Promise<number> {
+  const previous = await db.snapshot.findFirst({
+    where: {
+      marketId: snapshot.marketId,
+      source: snapshot.source,
+      propertyType: snapshot.propertyType,
+      status: "active",
+      id: { lt: snapshot.id },
+    },
+    orderBy: { id: "desc" },
+  });
+  if (!previous) return 0;
+
+  const changes = diffSnapshotKpis(kpisOf(previous), kpisOf(snapshot));
+  if (changes.length === 0) return 0;
+
+  await db.marketChange.createMany({
+    data: changes.map((c) => ({
+      marketId: snapshot.marketId,
+      source: snapshot.source,
+      ...c,
+      snapshotId: snapshot.id,
+      previousSnapshotId: previous.id,
+      asOf: snapshot.asOf,
+      previousAsOf: previous.asOf,
+    })),
+  });
+
+  return changes.length;
+}
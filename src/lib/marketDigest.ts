@@ -0,0 +1,157 @@
+// src/lib/marketDigest.ts
+import { PROVIDER_BUDGETS } from "@/config/budgets";
+import { getBudgetStatus } from "@/lib/budget";
+import { prisma } from "@/lib/prisma";
+
+// Where finished digests are POSTed; unset keeps them as job results only
+const DIGEST_WEBHOOK_URL = process.env.DIGEST_WEBHOOK_URL;
+
+type DigestOptions = {
+  days: number;
+  // Only KPI moves at least this large (0.03 = 3%)
+  minPct: number;
+  now?: Date;
+};
+
+export type MarketDigest = {
+  since: string;
+  until: string;
+  markets: {
+    marketId: string;
+    city: string | null;
+    state: string | null;
+    changes: {
+      source: string;
+      kpi: string;
+      previous: number | null;
+      current: number | null;
+      pctChange: number;
+      asOf: string;
+    }[];
+  }[];
+  budgets: { provider: string; period: string; used: number; limit: number }[];
+};
+
+/**
+ * What moved in the last `days`: market-wide KPI changes of at least
+ * minPct on visible markets, grouped by market, plus where each metered
+ * provider's budget stands.
+ */
+export async function buildMarketDigest({
+  days,
+  minPct,
+  now = new Date(),
+}: DigestOptions): Promise<MarketDigest> {
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const changes = await prisma.marketChange.findMany({
+    where: {
+      createdAt: { gte: since, lte: now },
+      propertyType: "all",
+      market: { hidden: false },
+      OR: [{ pctChange: { gte: minPct } }, { pctChange: { lte: -minPct } }],
+    },
+    orderBy: [{ marketId: "asc" }, { createdAt: "asc" }],
+    include: { market: { select: { city: true, state: true } } },
+  });
+
+  const markets = new Map<string, MarketDigest["markets"][number]>();
+  for (const c of changes) {
+    let entry = markets.get(c.marketId);
+    if (!entry) {
+      entry = {
+        marketId: c.marketId,
+        city: c.market.city,
+        state: c.market.state,
+        changes: [],
+      };
+      markets.set(c.marketId, entry);
+    }
+    entry.changes.push({
+      source: c.source,
+      kpi: c.kpi,
+      previous: c.previous,
+      current: c.current,
+      pctChange: c.pctChange!,
+      asOf: c.asOf.toISOString(),
+    });
+  }
+
+  const budgets = await Promise.all(
+    Object.keys(PROVIDER_BUDGETS).map(async (provider) => {
+      const status = await getBudgetStatus(provider, now);
+      return {
+        provider,
+        period: status.period,
+        used: status.used,
+        limit: status.policy.limit,
+      };
+    })
+  );
+
+  return {
+    since: since.toISOString(),
+    until: now.toISOString(),
+    markets: [...markets.values()],
+    budgets,
+  };
+}
+
+function pct(value: number) {
+  return `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+}
+
+// One line per market, e.g. "Scranton, PA: medianPrice +4.2%, medianRent -3.1%"
+function digestText(digest: MarketDigest) {
+  const lines = digest.markets.map((m) => {
+    const name = [m.city, m.state].filter(Boolean).join(", ") || m.marketId;
+    const moves = m.changes.map((c) => `${c.kpi} ${pct(c.pctChange)}`);
+    return `${name}: ${moves.join(", ")}`;
+  });
+  const budgets = digest.budgets.map(
+    (b) => `${b.provider} ${b.used}/${b.limit} (${b.period})`
+  );
+
+  return [
+    `Market digest ${digest.since.slice(0, 10)} – ${digest.until.slice(0, 10)}`,
+    ...(lines.length ? lines : ["No notable moves."]),
+    `Budget: ${budgets.join(", ")}`,
+  ].join("\n");
+}
+
+/**
+ * POST a digest to DIGEST_WEBHOOK_URL as { text, digest } (`text` is what
+ * chat webhooks such as Slack's display). Returns whether it was sent; a
+ * failed delivery throws so the job is retried.
+ */
+export async function deliverMarketDigest(
+  digest: MarketDigest
+): Promise<boolean> {
+  if (!DIGEST_WEBHOOK_URL) return false;
+
+  const res = await fetch(DIGEST_WEBHOOK_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text: digestText(digest), digest }),
+  });
+  if (!res.ok) {
+    throw new Error(`[Digest] Webhook answered ${res.status}`);
+  }
+  return true;
+}
+
+/** The newest digest a market.digest job produced, or null if none has. */
+export async function findLatestMarketDigest() {
+  const job = await prisma.job.findFirst({
+    where: { type: "market.digest", status: "succeeded" },
+    orderBy: { finishedAt: "desc" },
+    select: { id: true, finishedAt: true, result: true },
+  });
+  return job
+    ? {
+        jobId: job.id,
+        finishedAt: job.finishedAt,
+        digest: job.result as MarketDigest & { delivered: boolean },
+      }
+    : null;
+}
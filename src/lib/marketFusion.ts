@@ -0,0 +1,17 @@
+// src/lib/marketFusion.ts
+import type { Snapshot } from "@prisma/client";
+import { FUSION_CONFIG } from "@/config/fusion";
+import { fuseKpis, type FusedKpis } from "@/domain/fusion";
+import type { ProviderSnapshot } from "@/providers/types";
+
+/** Fused KPIs + per-KPI provenance across the given snapshots. */
+export function fuseSnapshots(snapshots: Snapshot[]): FusedKpis {
+  return fuseKpis(
+    snapshots.map((s) => ({
+      source: s.source,
+      asOf: s.asOf,
+      kpis: (s.kpis ?? {}) as Partial<ProviderSnapshot["kpis"]>,
+    })),
+    FUSION_CONFIG
+  );
+}
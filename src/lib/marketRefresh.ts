@@ -0,0 +1,90 @@
+// src/lib/marketRefresh.ts
+import type { Prisma, Snapshot } from "@prisma/client";
+import { QUARANTINE_RETRY_HOURS } from "@/config/quality";
+import { makeHttpError } from "@/lib/httpError";
+import { prisma } from "@/lib/prisma";
+import { singleFlight, withLease } from "@/lib/singleFlight";
+import {
+  findRecentProviderSnapshot,
+  insertProviderSnapshot,
+} from "@/lib/snapshotRepository";
+import {
+  getMarketDataProvider,
+  withProviderBudget,
+} from "@/providers/registry";
+import type { Dimensions } from "@/providers/types";
+
+type RefreshOptions = {
+  // Passed to the provider; the stored snapshot is always market-wide
+  dims: Dimensions;
+  // Runs in the insert's transaction, after the provider call
+  // (e.g. make sure the Market row exists for the FK)
+  beforeInsert?: (tx: Prisma.TransactionClient) => Promise<unknown>;
+};
+
+type RefreshResult = {
+  snapshot: Snapshot;
+  // false when another request wrote the snapshot while we waited
+  refreshed: boolean;
+};
+
+/**
+ * Fetch a new snapshot for a market from its provider and store it.
+ *
+ * Concurrent refreshes of the same market are coalesced: callers in this
+ * process share one promise, and callers on other instances wait on a
+ * lease, then reuse the snapshot the winner inserted. The provider call
+ * runs outside any transaction; only the quality checks and insert do.
+ *
+ * A payload that fails the ingest quality checks is stored as quarantined
+ * and the refresh throws SNAPSHOT_QUARANTINED, so callers keep serving
+ * their last active snapshot.
+ */
+export function refreshMarketSnapshot(
+  marketId: string,
+  { dims, beforeInsert }: RefreshOptions
+): Promise<RefreshResult> {
+  const key = `market-refresh:${marketId}`;
+  const requestedAt = new Date();
+
+  const quarantineSince = new Date(
+    requestedAt.getTime() - QUARANTINE_RETRY_HOURS * 60 * 60 * 1000
+  );
+
+  return singleFlight(key, async () => {
+    const result = await withLease(key, async () => {
+      // Someone else refreshed while we were waiting for the lease, or a
+      // recent refresh was quarantined (re-fetching would likely repeat it)
+      const recent = await findRecentProviderSnapshot(
+        prisma,
+        marketId,
+        requestedAt,
+        quarantineSince
+      );
+      if (recent) return { snapshot: recent, refreshed: false };
+
+      const provider = getMarketDataProvider(marketId);
+      const aggregate = await withProviderBudget(provider, marketId, () =>
+        provider.fetchAggregate(marketId, dims)
+      );
+
+      const snapshot = await prisma.$transaction(async (tx) => {
+        await beforeInsert?.(tx);
+        return insertProviderSnapshot(tx, marketId, provider.id, aggregate);
+      });
+
+      return { snapshot, refreshed: true };
+    });
+
+    // Thrown after the commit so the quarantined row is kept
+    if (result.snapshot.status === "quarantined") {
+      throw makeHttpError(
+        `New ${result.snapshot.source} data for ${marketId} failed quality checks and is quarantined for review`,
+        502,
+        "SNAPSHOT_QUARANTINED"
+      );
+    }
+
+    return result;
+  });
+}
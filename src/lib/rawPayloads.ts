@@ -0,0 +1,90 @@
+// src/lib/rawPayloads.ts
+import { createHash } from "node:crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+type ArchiveInput = {
+  provider: string;
+  endpoint: string;
+  marketId?: string;
+  params: Record<string, string>;
+  body: unknown;
+};
+
+/**
+ * JSON with object keys sorted, so equal payloads serialize identically
+ * no matter how the provider (or jsonb) ordered them.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        )
+      : v
+  );
+}
+
+export function payloadHash(body: unknown): string {
+  return createHash("sha256").update(canonicalJson(body)).digest("hex");
+}
+
+/**
+ * Keep a provider response as received. A body we already have (same
+ * content hash) only bumps lastSeenAt/fetchCount. Best-effort: returns null
+ * instead of failing the refresh when the archive write fails.
+ */
+export async function archiveRawPayload({
+  provider,
+  endpoint,
+  marketId,
+  params,
+  body,
+}: ArchiveInput): Promise<number | null> {
+  const contentHash = payloadHash(body);
+
+  try {
+    const row = await prisma.rawPayload.upsert({
+      where: {
+        provider_endpoint_contentHash: { provider, endpoint, contentHash },
+      },
+      update: { lastSeenAt: new Date(), fetchCount: { increment: 1 } },
+      create: {
+        provider,
+        endpoint,
+        marketId,
+        params,
+        contentHash,
+        body: body as Prisma.InputJsonValue,
+      },
+      select: { id: true },
+    });
+    return row.id;
+  } catch (e) {
+    console.warn(`[RawPayload] Failed to archive ${provider} ${endpoint}`, e);
+    return null;
+  }
+}
+
+/**
+ * Flag an archived payload the parser rejected. No snapshot was built from
+ * it, so reprocessSnapshots picks it up by this flag. Best-effort, like the
+ * archive write.
+ */
+export async function markRawPayloadUnparsed(
+  id: number,
+  error: unknown
+): Promise<void> {
+  try {
+    await prisma.rawPayload.update({
+      where: { id },
+      data: {
+        parseError: error instanceof Error ? error.message : String(error),
+      },
+    });
+  } catch (e) {
+    console.warn(`[RawPayload] Failed to flag payload ${id} as unparsed`, e);
+  }
+}
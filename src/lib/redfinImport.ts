@@ -0,0 +1,41 @@
+// src/lib/redfinImport.ts
+import path from "node:path";
+import { trackedZips, type IndexImportResult } from "@/lib/indexSnapshots";
+import { saveIndexSnapshot } from "@/lib/snapshotRepository";
+import { buildRedfinSnapshot, readRedfinZipTracker } from "@/providers/redfin";
+
+type RedfinImportOptions = {
+  file: string;
+  // Limit to these ZIPs; defaults to every ZIP market we already track
+  zips?: string[];
+};
+
+/**
+ * Import the Redfin ZIP market tracker into Snapshot rows with source
+ * "redfin", one per tracked ZIP market.
+ */
+export async function importRedfinTracker({
+  file,
+  zips,
+}: RedfinImportOptions): Promise<IndexImportResult> {
+  const wanted = await trackedZips(zips);
+  const rows = await readRedfinZipTracker(file, wanted);
+
+  const result: IndexImportResult = { created: [], updated: [], missing: [] };
+
+  for (const zip of [...wanted].sort()) {
+    const marketId = `zip:${zip}`;
+    const data = rows.get(zip);
+
+    if (!data || data.segments.size === 0) {
+      result.missing.push(marketId);
+      continue;
+    }
+
+    const snapshot = buildRedfinSnapshot(data, path.basename(file));
+    const outcome = await saveIndexSnapshot(marketId, "redfin", snapshot);
+    result[outcome].push(marketId);
+  }
+
+  return result;
+}
@@ -0,0 +1,220 @@
+// src/lib/refreshScheduler.ts
+import { Prisma } from "@prisma/client";
+import { REFRESH_SCHEDULER } from "@/config/scheduler";
+import {
+  planRefreshes,
+  type RankedRefresh,
+  type RefreshCandidate,
+  type RefreshSchedulerConfig,
+} from "@/domain/refreshPriority";
+import { getBudgetStatus } from "@/lib/budget";
+import { snapshotTtlHours } from "@/lib/freshness";
+import { refreshMarketSnapshot } from "@/lib/marketRefresh";
+import { prisma } from "@/lib/prisma";
+import { servedSnapshots } from "@/lib/snapshotRepository";
+import { getMarketDataProvider } from "@/providers/registry";
+
+type SchedulerOptions = {
+  // Plan and record, but make no provider calls
+  dryRun: boolean;
+  // Stored on the run, e.g. "admin" or "script"
+  trigger: string;
+  config?: RefreshSchedulerConfig;
+  now?: Date;
+};
+
+export type RefreshOutcome =
+  | "refreshed"
+  // Nothing fetched: refreshed concurrently, or quarantined recently
+  | "unchanged"
+  | "quarantined"
+  | "error"
+  // Not attempted: the provider's budget ran out earlier in this run
+  | "skipped";
+
+export type RefreshRunReport = {
+  runId: number;
+  dryRun: boolean;
+  budgets: Record<string, { remaining: number; affordable: number }>;
+  planned: number;
+  refreshed: number;
+  items: (RankedRefresh & {
+    outcome: RefreshOutcome | null;
+    errorCode: string | null;
+  })[];
+};
+
+// Volatility signal: price/rent moves only, market-wide
+const VOLATILITY_KPIS = ["medianPrice", "medianRent"];
+
+const HOUR_MS = 3_600_000;
+
+/** Every visible market with the signals the scheduler ranks it by. */
+export async function gatherCandidates(
+  config: RefreshSchedulerConfig,
+  now: Date
+): Promise<RefreshCandidate[]> {
+  const markets = await prisma.market.findMany({
+    where: { hidden: false },
+    select: { id: true, viewCount: true },
+  });
+  if (markets.length === 0) return [];
+
+  const ids = markets.map((m) => m.id);
+  const since = new Date(
+    now.getTime() - config.volatilityWindowDays * 24 * HOUR_MS
+  );
+
+  const [latest, volatility] = await Promise.all([
+    prisma.snapshot.groupBy({
+      by: ["marketId"],
+      where: { marketId: { in: ids }, ...servedSnapshots() },
+      _max: { createdAt: true },
+    }),
+    prisma.$queryRaw<{ marketId: string; volatility: number }[]>`
+      SELECT "marketId", AVG(ABS("pctChange"))::float8 AS "volatility"
+      FROM "MarketChange"
+      WHERE "marketId" IN (${Prisma.join(ids)})
+        AND "propertyType" = 'all'
+        AND "kpi" IN (${Prisma.join(VOLATILITY_KPIS)})
+        AND "pctChange" IS NOT NULL
+        AND "createdAt" >= ${since}
+      GROUP BY "marketId"`,
+  ]);
+
+  const fetchedAt = new Map(latest.map((l) => [l.marketId, l._max.createdAt]));
+  const volatilityOf = new Map(
+    volatility.map((v) => [v.marketId, v.volatility])
+  );
+
+  return markets.map((m) => {
+    const provider = getMarketDataProvider(m.id);
+    const createdAt = fetchedAt.get(m.id);
+    return {
+      marketId: m.id,
+      provider: provider.id,
+      metered: provider.metered,
+      ageHours: createdAt
+        ? (now.getTime() - createdAt.getTime()) / HOUR_MS
+        : null,
+      ttlHours: snapshotTtlHours(m.id),
+      viewCount: m.viewCount,
+      volatility: volatilityOf.get(m.id) ?? null,
+    };
+  });
+}
+
+/**
+ * Rank every visible market, refresh the ones that are due in priority
+ * order while each metered provider's budget (minus the reserve kept for
+ * on-demand reads) lasts, and record the whole plan and its outcomes as a
+ * RefreshRun. Refreshes go through refreshMarketSnapshot, so each call is
+ * charged to the budget ledger and coalesced with concurrent reads.
+ */
+export async function runRefreshScheduler({
+  dryRun,
+  trigger,
+  config = REFRESH_SCHEDULER,
+  now = new Date(),
+}: SchedulerOptions): Promise<RefreshRunReport> {
+  const candidates = await gatherCandidates(config, now);
+
+  const budgets: RefreshRunReport["budgets"] = {};
+  for (const provider of new Set(
+    candidates.filter((c) => c.metered).map((c) => c.provider)
+  )) {
+    const { remaining } = await getBudgetStatus(provider, now);
+    budgets[provider] = {
+      remaining,
+      affordable: Math.max(0, remaining - config.reserveCalls),
+    };
+  }
+
+  const plan = planRefreshes(
+    candidates,
+    Object.fromEntries(
+      Object.entries(budgets).map(([p, b]) => [p, b.affordable])
+    ),
+    config
+  );
+
+  const run = await prisma.refreshRun.create({
+    data: { trigger, dryRun, budgets, startedAt: now },
+    select: { id: true },
+  });
+  await prisma.refreshRunItem.createMany({
+    data: plan.map((item) => ({
+      runId: run.id,
+      marketId: item.marketId,
+      provider: item.provider,
+      rank: item.rank,
+      score: item.score,
+      staleness: item.staleness,
+      viewCount: item.viewCount,
+      volatility: item.volatility,
+      decision: item.decision,
+    })),
+  });
+
+  const items: RefreshRunReport["items"] = plan.map((item) => ({
+    ...item,
+    outcome: null,
+    errorCode: null,
+  }));
+  const exhausted = new Set<string>();
+
+  for (const item of items) {
+    if (dryRun || item.decision !== "planned") continue;
+
+    let snapshotId: number | null = null;
+    if (exhausted.has(item.provider)) {
+      item.outcome = "skipped";
+    } else {
+      try {
+        const result = await refreshMarketSnapshot(item.marketId, {
+          dims: {},
+        });
+        item.outcome = result.refreshed ? "refreshed" : "unchanged";
+        snapshotId = result.snapshot.id;
+      } catch (e) {
+        const err = e as { code?: string; message?: string };
+        item.outcome =
+          err.code === "SNAPSHOT_QUARANTINED" ? "quarantined" : "error";
+        item.errorCode = err.code ?? "SERVER_ERROR";
+        console.warn(
+          `[scheduler] Refresh of ${item.marketId} failed:`,
+          err.message ?? e
+        );
+
+        // Someone else spent what was left; don't try the rest
+        if (err.code?.endsWith("_QUOTA_EXHAUSTED")) {
+          exhausted.add(item.provider);
+        }
+      }
+    }
+
+    await prisma.refreshRunItem.updateMany({
+      where: { runId: run.id, marketId: item.marketId },
+      data: {
+        outcome: item.outcome,
+        errorCode: item.errorCode,
+        snapshotId,
+        executedAt: item.outcome === "skipped" ? null : new Date(),
+      },
+    });
+  }
+
+  await prisma.refreshRun.update({
+    where: { id: run.id },
+    data: { finishedAt: new Date() },
+  });
+
+  return {
+    runId: run.id,
+    dryRun,
+    budgets,
+    planned: items.filter((i) => i.decision === "planned").length,
+    refreshed: items.filter((i) => i.outcome === "refreshed").length,
+    items,
+  };
+}
@@ -0,0 +1,255 @@
+// src/lib/reprocessSnapshots.ts
+import { Prisma, type RawPayload } from "@prisma/client";
+import { recordSnapshotChanges } from "@/lib/marketChanges";
+import { prisma } from "@/lib/prisma";
+import { canonicalJson } from "@/lib/rawPayloads";
+import {
+  seriesPointsFromSnapshot,
+  upsertSeriesPoints,
+} from "@/lib/seriesPoints";
+import {
+  assessSnapshotQuality,
+  ingestedSnapshotData,
+  type QualityVerdict,
+} from "@/lib/snapshotQuality";
+import { insertProviderSnapshot, MARKET_WIDE } from "@/lib/snapshotRepository";
+import { buildRentCastSnapshot, parseMarketData } from "@/providers/rentcast";
+import type { ProviderSnapshot } from "@/providers/types";
+
+type ReprocessOptions = {
+  // Report what would change; nothing is written
+  dryRun: boolean;
+  marketId?: string;
+};
+
+export type ReprocessResult = {
+  dryRun: boolean;
+  rebuilt: number[];
+  unchanged: number[];
+  // Payloads that failed parsing when fetched and now have a snapshot
+  recovered: { rawPayloadId: number; snapshotId: number | null }[];
+  failed: { snapshotId?: number; rawPayloadId?: number; error: string }[];
+};
+
+// Same aggregation code a live refresh runs, minus the provider call
+function rebuildAggregate(payload: RawPayload, marketId: string) {
+  if (payload.provider !== "rentcast" || payload.endpoint !== "/v1/markets") {
+    throw new Error(
+      `No rebuilder for ${payload.provider} ${payload.endpoint} payloads`
+    );
+  }
+  return {
+    ...buildRentCastSnapshot(parseMarketData(payload.body, marketId), {}),
+    rawPayloadId: payload.id,
+  };
+}
+
+// What would be stored, compared through JSON so Dates and key order don't matter
+function fingerprint(
+  status: string,
+  kpis: unknown,
+  sourceMeta: unknown,
+  qualityIssues: unknown
+) {
+  return canonicalJson(
+    JSON.parse(JSON.stringify({ status, kpis, sourceMeta, qualityIssues }))
+  );
+}
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Rebuild snapshots from their archived raw payloads with the current
+ * aggregation code, then build snapshots for payloads that failed parsing
+ * when they were fetched. Unreviewed snapshots go through the ingest
+ * quality checks again, so a fix can quarantine an active row or promote a
+ * quarantined one; rows an admin reviewed keep their status. Active rows
+ * have their history re-upserted into SeriesPoint and their change log
+ * entry recomputed. Everything runs oldest first, so the newest payload
+ * has the last word on every month.
+ */
+export async function reprocessSnapshots({
+  dryRun,
+  marketId,
+}: ReprocessOptions): Promise<ReprocessResult> {
+  const snapshots = await prisma.snapshot.findMany({
+    where: { marketId, rawPayloadId: { not: null } },
+    orderBy: { id: "asc" },
+  });
+
+  const result: ReprocessResult = {
+    dryRun,
+    rebuilt: [],
+    unchanged: [],
+    recovered: [],
+    failed: [],
+  };
+
+  for (const snapshot of snapshots) {
+    let aggregate: ProviderSnapshot;
+    try {
+      const payload = await prisma.rawPayload.findUnique({
+        where: { id: snapshot.rawPayloadId! },
+      });
+      if (!payload) {
+        throw new Error(`RawPayload ${snapshot.rawPayloadId} not found`);
+      }
+      aggregate = rebuildAggregate(payload, snapshot.marketId);
+    } catch (e) {
+      result.failed.push({ snapshotId: snapshot.id, error: errorMessage(e) });
+      continue;
+    }
+
+    // An admin's approve/reject stands; everything else is re-checked
+    const verdict: QualityVerdict | null = snapshot.reviewedAt
+      ? null
+      : await assessSnapshotQuality(prisma, {
+          marketId: snapshot.marketId,
+          source: snapshot.source,
+          propertyType: MARKET_WIDE,
+          aggregate,
+          beforeId: snapshot.id,
+        });
+    const status = verdict?.status ?? snapshot.status;
+    const active = status === "active";
+
+    // Quarantined/rejected rows keep their history inline
+    const data = ingestedSnapshotData(aggregate, {
+      status: active ? "active" : "quarantined",
+      issues: verdict?.issues ?? [],
+    });
+    const qualityIssues = verdict
+      ? (data.qualityIssues ?? null)
+      : snapshot.qualityIssues;
+
+    if (
+      fingerprint(
+        snapshot.status,
+        snapshot.kpis,
+        snapshot.sourceMeta,
+        snapshot.qualityIssues
+      ) ===
+      fingerprint(
+        status,
+        aggregate.kpis,
+        data.sourceMeta ?? null,
+        qualityIssues
+      )
+    ) {
+      result.unchanged.push(snapshot.id);
+      continue;
+    }
+
+    result.rebuilt.push(snapshot.id);
+    if (dryRun) continue;
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.snapshot.update({
+        where: { id: snapshot.id },
+        data: {
+          kpis: data.kpis,
+          series: data.series,
+          sourceMeta: data.sourceMeta,
+          status,
+          qualityIssues: qualityIssues ?? Prisma.DbNull,
+        },
+      });
+
+      await tx.marketChange.deleteMany({ where: { snapshotId: snapshot.id } });
+
+      if (!active) {
+        // Newly quarantined: take back the points it published
+        if (snapshot.status === "active") {
+          await tx.seriesPoint.deleteMany({
+            where: { snapshotId: snapshot.id },
+          });
+        }
+        return;
+      }
+
+      await upsertSeriesPoints(
+        tx,
+        snapshot.marketId,
+        snapshot.source,
+        seriesPointsFromSnapshot(aggregate),
+        snapshot.id
+      );
+      await recordSnapshotChanges(tx, updated);
+    });
+  }
+
+  await recoverUnparsedPayloads(dryRun, marketId, result);
+
+  return result;
+}
+
+// Payloads flagged by markRawPayloadUnparsed that never got a snapshot
+async function recoverUnparsedPayloads(
+  dryRun: boolean,
+  marketId: string | undefined,
+  result: ReprocessResult
+) {
+  const payloads = await prisma.rawPayload.findMany({
+    where: {
+      marketId: marketId ?? { not: null },
+      parseError: { not: null },
+    },
+    orderBy: { lastSeenAt: "asc" },
+  });
+
+  for (const payload of payloads) {
+    // Fetched again after a fix and parsed live: already has its snapshot
+    const linked = await prisma.snapshot.count({
+      where: { rawPayloadId: payload.id },
+    });
+    if (linked > 0) {
+      if (!dryRun) {
+        await prisma.rawPayload.update({
+          where: { id: payload.id },
+          data: { parseError: null },
+        });
+      }
+      continue;
+    }
+
+    let aggregate: ProviderSnapshot;
+    try {
+      aggregate = rebuildAggregate(payload, payload.marketId!);
+    } catch (e) {
+      result.failed.push({ rawPayloadId: payload.id, error: errorMessage(e) });
+      continue;
+    }
+
+    if (dryRun) {
+      result.recovered.push({ rawPayloadId: payload.id, snapshotId: null });
+      continue;
+    }
+
+    try {
+      // Runs the quality checks like a live refresh; dated to the fetch
+      const snapshot = await prisma.$transaction(async (tx) => {
+        const created = await insertProviderSnapshot(
+          tx,
+          payload.marketId!,
+          payload.provider,
+          aggregate,
+          payload.lastSeenAt
+        );
+        await tx.rawPayload.update({
+          where: { id: payload.id },
+          data: { parseError: null },
+        });
+        return created;
+      });
+      result.recovered.push({
+        rawPayloadId: payload.id,
+        snapshotId: snapshot.id,
+      });
+    } catch (e) {
+      // e.g. a new ZIP whose Market row was never created
+      result.failed.push({ rawPayloadId: payload.id, error: errorMessage(e) });
+    }
+  }
+}
@@ -0,0 +1,29 @@
+// src/lib/retry.ts
+
+export function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with "full jitter": a random delay between 0 and
+ * base * 2^(attempt - 1), capped at maxMs. attempt is 1-based.
+ */
+export function backoffDelay(attempt: number, baseMs = 500, maxMs = 8_000) {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ * Returns null when the header is missing or unparseable.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
@@ -0,0 +1,185 @@
+// src/lib/schedules.ts
+import { Prisma, type Schedule } from "@prisma/client";
+import { z } from "zod";
+import { nextCronRun, parseCron } from "@/domain/cron";
+import { makeHttpError } from "@/lib/httpError";
+import {
+  enqueueJob,
+  isJobType,
+  parseJobPayload,
+  singletonJobKey,
+  type JobPayloadInput,
+  type JobType,
+} from "@/lib/jobs";
+import { prisma } from "@/lib/prisma";
+import { tryWithAdvisoryLock } from "@/lib/singleFlight";
+
+const SCHEDULER_LOCK = "schedule-tick";
+
+const SCHEDULE_INPUT = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, "name must be kebab-case"),
+  cron: z.string().min(1),
+  jobType: z.string(),
+  payload: z.record(z.string(), z.unknown()).default({}),
+  enabled: z.boolean().default(true),
+});
+
+function invalid(message: string, code: string) {
+  return makeHttpError(message, 400, code);
+}
+
+/** Next fire time for a cron expression; INVALID_CRON (400) if it's bad. */
+export function nextRunFor(cron: string, after = new Date()): Date {
+  try {
+    return nextCronRun(parseCron(cron), after);
+  } catch (e) {
+    throw invalid((e as Error).message, "INVALID_CRON");
+  }
+}
+
+// Reject what the tick couldn't enqueue, so bad schedules fail at write time
+function validatePayload(jobType: string, payload: unknown) {
+  if (!isJobType(jobType)) {
+    throw invalid(`Unknown job type "${jobType}"`, "UNKNOWN_JOB_TYPE");
+  }
+  parseJobPayload(jobType, payload);
+}
+
+function parseInput<T>(schema: z.ZodType<T>, body: unknown): T {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw invalid(
+      parsed.error.issues
+        .map((i) => `${i.path.join(".")}: ${i.message}`)
+        .join("; "),
+      "INVALID_SCHEDULE"
+    );
+  }
+  return parsed.data;
+}
+
+export async function createSchedule(body: unknown): Promise<Schedule> {
+  const input = parseInput(SCHEDULE_INPUT, body);
+  validatePayload(input.jobType, input.payload);
+
+  try {
+    return await prisma.schedule.create({
+      data: {
+        ...input,
+        payload: input.payload as Prisma.InputJsonObject,
+        nextRunAt: nextRunFor(input.cron),
+      },
+    });
+  } catch (e) {
+    if (
+      e instanceof Prisma.PrismaClientKnownRequestError &&
+      e.code === "P2002"
+    ) {
+      throw makeHttpError(
+        `A schedule named "${input.name}" already exists`,
+        409,
+        "SCHEDULE_EXISTS"
+      );
+    }
+    throw e;
+  }
+}
+
+export async function updateSchedule(
+  id: number,
+  body: unknown
+): Promise<Schedule> {
+  const existing = await prisma.schedule.findUnique({ where: { id } });
+  if (!existing) {
+    throw makeHttpError("Schedule not found", 404, "SCHEDULE_NOT_FOUND");
+  }
+
+  const input = parseInput(SCHEDULE_INPUT.partial().omit({ name: true }), body);
+  const cron = input.cron ?? existing.cron;
+  validatePayload(
+    input.jobType ?? existing.jobType,
+    input.payload ?? existing.payload
+  );
+
+  return prisma.schedule.update({
+    where: { id },
+    data: {
+      ...input,
+      payload: input.payload as Prisma.InputJsonObject | undefined,
+      // Re-enabling or a new cron starts counting from now
+      nextRunAt: nextRunFor(cron),
+    },
+  });
+}
+
+export type TickResult = {
+  // false when another instance holds the scheduler lock
+  leader: boolean;
+  fired: { schedule: string; jobId: number }[];
+};
+
+/**
+ * Enqueue a job for every enabled schedule that's due, then move its
+ * nextRunAt to the following slot. Runs under a non-blocking advisory lock
+ * so only one instance fires per tick, and the enqueue + schedule update
+ * commit together. A schedule missed while no worker was up fires once on
+ * the next tick, not once per missed slot.
+ */
+export async function tickSchedules(now = new Date()): Promise<TickResult> {
+  const fired = await tryWithAdvisoryLock(SCHEDULER_LOCK, async (tx) => {
+    const due = await tx.schedule.findMany({
+      where: {
+        enabled: true,
+        OR: [{ nextRunAt: null }, { nextRunAt: { lte: now } }],
+      },
+      orderBy: { id: "asc" },
+    });
+
+    const result: TickResult["fired"] = [];
+    for (const schedule of due) {
+      let nextRunAt: Date;
+      try {
+        nextRunAt = nextRunFor(schedule.cron, now);
+      } catch (e) {
+        console.warn(`[schedules] ${schedule.name}:`, (e as Error).message);
+        continue;
+      }
+
+      // New or just-seeded schedule: only work out when it's due
+      if (!schedule.nextRunAt) {
+        await tx.schedule.update({
+          where: { id: schedule.id },
+          data: { nextRunAt },
+        });
+        continue;
+      }
+
+      // Rows edited by hand can skip the write-time checks
+      try {
+        validatePayload(schedule.jobType, schedule.payload);
+      } catch (e) {
+        console.warn(`[schedules] ${schedule.name}:`, (e as Error).message);
+        continue;
+      }
+
+      const jobType = schedule.jobType as JobType;
+      const payload = schedule.payload as JobPayloadInput<JobType>;
+      const job = await enqueueJob(jobType, payload, {
+        // A run that's still going (scheduled or started by hand) isn't
+        // queued a second time
+        dedupeKey:
+          singletonJobKey(jobType, payload) ?? `schedule:${schedule.name}`,
+        db: tx,
+      });
+      await tx.schedule.update({
+        where: { id: schedule.id },
+        data: { lastRunAt: now, lastJobId: job.id, nextRunAt },
+      });
+      result.push({ schedule: schedule.name, jobId: job.id });
+    }
+
+    return result;
+  });
+
+  return { leader: fired != null, fired: fired ?? [] };
+}
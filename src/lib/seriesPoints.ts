@@ -0,0 +1,200 @@
+// src/lib/seriesPoints.ts
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { ProviderSnapshot } from "@/providers/types";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+type SeriesEntry = { date: string } & Record<string, unknown>;
+
+export type SeriesPointInput = {
+  propertyType: string;
+  metric: string;
+  month: Date;
+  value: number;
+};
+
+// Metrics we write today: listing medians + Redfin tightness
+export const SERIES_METRICS = [
+  "medianPrice",
+  "medianRent",
+  "inventory",
+  "monthsOfSupply",
+  "saleToList",
+  "soldAboveList",
+  "homesSold",
+] as const;
+
+// One INSERT per chunk keeps statements well under Postgres' bind limit
+const UPSERT_CHUNK = 500;
+
+function monthOf(date: string): Date | null {
+  const d = new Date(date);
+  if (Number.isNaN(d.getTime())) return null;
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
+}
+
+function pointsFrom(
+  propertyType: string,
+  series: unknown
+): SeriesPointInput[] {
+  if (!Array.isArray(series)) return [];
+
+  return (series as SeriesEntry[]).flatMap((entry) => {
+    const month = entry?.date ? monthOf(entry.date) : null;
+    if (!month) return [];
+
+    return Object.entries(entry).flatMap(([metric, value]) =>
+      metric !== "date" && typeof value === "number" && Number.isFinite(value)
+        ? [{ propertyType, metric, month, value }]
+        : []
+    );
+  });
+}
+
+/**
+ * Every monthly value in a provider/index snapshot: the overall series as
+ * propertyType "all", per-type breakdowns under their bucket, and any
+ * tightness series (Redfin). Per-bedroom series stay in sourceMeta.
+ */
+export function seriesPointsFromSnapshot(
+  aggregate: Pick<ProviderSnapshot, "series" | "sourceMeta">
+): SeriesPointInput[] {
+  const meta = aggregate.sourceMeta ?? {};
+  const points = [
+    ...pointsFrom("all", aggregate.series),
+    ...pointsFrom("all", meta.tightnessSeries),
+  ];
+
+  for (const [bucket, payload] of Object.entries(meta.perType ?? {})) {
+    const p = payload as { series?: unknown; tightnessSeries?: unknown } | null;
+    points.push(...pointsFrom(bucket, p?.series));
+    points.push(...pointsFrom(bucket, p?.tightnessSeries));
+  }
+
+  return points;
+}
+
+const SERIES_KEYS = ["series", "tightnessSeries"];
+
+function omitSeries(obj: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([key]) => !SERIES_KEYS.includes(key))
+  );
+}
+
+/**
+ * The snapshot as stored: series moved out to SeriesPoint, so the row only
+ * keeps KPIs and breakdown KPIs.
+ */
+export function withoutSeries<T extends Pick<ProviderSnapshot, "sourceMeta">>(
+  aggregate: T
+): Omit<T, "series"> & { series: [] } {
+  const meta = aggregate.sourceMeta;
+  if (!meta) return { ...aggregate, series: [] };
+
+  const stripped = omitSeries(meta);
+  if (meta.perType && typeof meta.perType === "object") {
+    stripped.perType = Object.fromEntries(
+      Object.entries(meta.perType as Record<string, unknown>).map(
+        ([bucket, payload]) => [
+          bucket,
+          payload && typeof payload === "object"
+            ? omitSeries(payload as Record<string, unknown>)
+            : payload,
+        ]
+      )
+    );
+  }
+
+  return { ...aggregate, series: [], sourceMeta: stripped };
+}
+
+/**
+ * Upsert points for one market + source. Later writes win, so a refresh
+ * corrects revised months in place instead of adding another copy.
+ */
+export async function upsertSeriesPoints(
+  db: Db,
+  marketId: string,
+  source: string,
+  points: SeriesPointInput[],
+  snapshotId: number | null = null
+): Promise<number> {
+  // ON CONFLICT can't touch the same row twice in one statement; last one wins
+  const unique = [
+    ...new Map(
+      points.map((p) => [
+        `${p.propertyType}|${p.metric}|${p.month.toISOString()}`,
+        p,
+      ])
+    ).values(),
+  ];
+
+  for (let i = 0; i < unique.length; i += UPSERT_CHUNK) {
+    const rows = unique
+      .slice(i, i + UPSERT_CHUNK)
+      .map(
+        (p) =>
+          Prisma.sql`(${marketId}, ${source}, ${p.propertyType}, ${p.metric}, ${p.month}::date, ${p.value}, ${snapshotId}, CURRENT_TIMESTAMP)`
+      );
+
+    await db.$executeRaw`
+      INSERT INTO "SeriesPoint" ("marketId", "source", "propertyType", "metric", "month", "value", "snapshotId", "updatedAt")
+      VALUES ${Prisma.join(rows)}
+      ON CONFLICT ("marketId", "source", "propertyType", "metric", "month")
+      DO UPDATE SET "value" = EXCLUDED."value", "snapshotId" = EXCLUDED."snapshotId", "updatedAt" = CURRENT_TIMESTAMP`;
+  }
+
+  return unique.length;
+}
+
+type SeriesQuery = {
+  marketId: string;
+  source: string;
+  propertyType?: string;
+  metrics: string[];
+  from?: Date;
+  to?: Date;
+};
+
+export type SeriesRow = { date: string; [metric: string]: string | number | null };
+
+/**
+ * Monthly series for a market/source/type within [from, to], pivoted into
+ * one row per month with a column per metric (null where a metric is missing).
+ */
+export async function getSeries({
+  marketId,
+  source,
+  propertyType = "all",
+  metrics,
+  from,
+  to,
+}: SeriesQuery): Promise<SeriesRow[]> {
+  const points = await prisma.seriesPoint.findMany({
+    where: {
+      marketId,
+      source,
+      propertyType,
+      metric: { in: metrics },
+      month: { gte: from, lte: to },
+    },
+    orderBy: { month: "asc" },
+    select: { metric: true, month: true, value: true },
+  });
+
+  const rows = new Map<string, SeriesRow>();
+  for (const p of points) {
+    const date = p.month.toISOString();
+    let row = rows.get(date);
+    if (!row) {
+      row = { date } as SeriesRow;
+      for (const metric of metrics) row[metric] = null;
+      rows.set(date, row);
+    }
+    row[p.metric] = p.value;
+  }
+
+  return [...rows.values()];
+}
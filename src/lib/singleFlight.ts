@@ -0,0 +1,82 @@
+// src/lib/singleFlight.ts
+import { randomUUID } from "node:crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sleep } from "@/lib/retry";
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * In-process single-flight: concurrent callers with the same key share
+ * one execution of fn and all receive its result (or error).
+ */
+export function singleFlight<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const existing = inFlight.get(key);
+  if (existing) return existing as Promise<T>;
+
+  const promise = fn().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+// Outlives the slowest provider call (retries plus a capped Retry-After),
+// so a live holder keeps its lease; a crashed one frees it on expiry
+const LEASE_TTL_MS = 180_000;
+const LEASE_POLL_MS = 500;
+
+async function acquireLease(key: string, holder: string): Promise<boolean> {
+  const expiresAt = new Date(Date.now() + LEASE_TTL_MS);
+  const rows = await prisma.$queryRaw<{ key: string }[]>`
+    INSERT INTO "Lease" ("key", "holder", "expiresAt")
+    VALUES (${key}, ${holder}, ${expiresAt})
+    ON CONFLICT ("key") DO UPDATE
+      SET "holder" = EXCLUDED."holder", "expiresAt" = EXCLUDED."expiresAt"
+      WHERE "Lease"."expiresAt" < CURRENT_TIMESTAMP
+    RETURNING "key"`;
+  return rows.length > 0;
+}
+
+/**
+ * Cross-instance lock that isn't tied to a transaction or a pooled
+ * connection: a row in Lease, taken over once it expires. Slow work (a
+ * provider call) can run under it without holding a transaction open;
+ * callers open their own short transaction for the writes.
+ */
+export async function withLease<T>(
+  key: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const holder = randomUUID();
+  while (!(await acquireLease(key, holder))) {
+    await sleep(LEASE_POLL_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await prisma.lease
+      .deleteMany({ where: { key, holder } })
+      .catch((e) => console.warn(`[Lease] Could not release ${key}:`, e));
+  }
+}
+
+/**
+ * Non-blocking cross-instance lock: runs fn inside a transaction that
+ * holds a Postgres advisory lock on key, or returns null right away if
+ * another instance holds it. The lock is released when the transaction
+ * ends, so keep fn short.
+ */
+export function tryWithAdvisoryLock<T>(
+  key: string,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  timeoutMs = 90_000
+): Promise<T | null> {
+  return prisma.$transaction(
+    async (tx) => {
+      const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+        SELECT pg_try_advisory_xact_lock(hashtext(${key})) AS "locked"`;
+      return locked ? fn(tx) : null;
+    },
+    { maxWait: 10_000, timeout: timeoutMs }
+  );
+}
@@ -0,0 +1,180 @@
+// src/lib/snapshotQuality.ts
+import type { Prisma, PrismaClient, Snapshot } from "@prisma/client";
+import { QUALITY_RULES } from "@/config/quality";
+import {
+  checkSnapshotQuality,
+  type QualityInput,
+  type QualityIssue,
+} from "@/domain/quality";
+import { makeHttpError } from "@/lib/httpError";
+import { recordSnapshotChanges } from "@/lib/marketChanges";
+import { prisma } from "@/lib/prisma";
+import {
+  seriesPointsFromSnapshot,
+  upsertSeriesPoints,
+  withoutSeries,
+} from "@/lib/seriesPoints";
+import { upsertZipMarket } from "@/lib/zipMarkets";
+import type { ProviderSnapshot, SnapshotPropertyType } from "@/providers/types";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type QualityVerdict = {
+  status: "active" | "quarantined";
+  issues: QualityIssue[];
+};
+
+type IngestTarget = {
+  marketId: string;
+  source: string;
+  propertyType: SnapshotPropertyType;
+  aggregate: ProviderSnapshot;
+  // Re-checking a stored snapshot: compare with the one before it, not itself
+  beforeId?: number;
+};
+
+/**
+ * Run the ingest checks for a freshly fetched aggregate against the
+ * market's previous active snapshot from the same source.
+ */
+export async function assessSnapshotQuality(
+  db: Db,
+  { marketId, source, propertyType, aggregate, beforeId }: IngestTarget
+): Promise<QualityVerdict> {
+  const previous = await db.snapshot.findFirst({
+    where: {
+      marketId,
+      source,
+      propertyType,
+      status: "active",
+      id: beforeId == null ? undefined : { lt: beforeId },
+    },
+    orderBy: [{ asOf: "desc" }, { createdAt: "desc" }],
+    select: { asOf: true, kpis: true },
+  });
+
+  const issues = checkSnapshotQuality(
+    {
+      asOf: aggregate.asOf,
+      kpis: aggregate.kpis,
+      sampleSize: aggregate.sourceMeta?.sampleSize,
+    },
+    previous
+      ? { asOf: previous.asOf, kpis: previous.kpis as QualityInput["kpis"] }
+      : null,
+    QUALITY_RULES
+  );
+
+  return { status: issues.length ? "quarantined" : "active", issues };
+}
+
+/**
+ * Snapshot columns for an ingested aggregate. Active rows move their history
+ * to SeriesPoint; quarantined rows keep it inline so nothing reaches the
+ * charts until an admin approves them.
+ */
+export function ingestedSnapshotData(
+  aggregate: ProviderSnapshot,
+  verdict: QualityVerdict
+) {
+  const stored =
+    verdict.status === "active" ? withoutSeries(aggregate) : aggregate;
+
+  return {
+    asOf: aggregate.asOf,
+    kpis: aggregate.kpis,
+    series: stored.series,
+    sourceMeta: stored.sourceMeta ?? undefined,
+    status: verdict.status,
+    qualityIssues: verdict.issues.length ? verdict.issues : undefined,
+    rawPayloadId: aggregate.rawPayloadId ?? undefined,
+  };
+}
+
+/**
+ * Approve or reject a quarantined snapshot. Approving publishes it the way
+ * a clean ingest would have: history into SeriesPoint, changes into the
+ * MarketChange log. A market added by this (quarantined) first fetch was
+ * created hidden; approving its first active snapshot unhides it.
+ */
+export async function reviewQuarantinedSnapshot(
+  id: number,
+  action: "approve" | "reject"
+): Promise<Snapshot> {
+  let firstServed = false;
+
+  const reviewed = await prisma.$transaction(async (tx) => {
+    const snapshot = await tx.snapshot.findUnique({ where: { id } });
+    if (!snapshot) {
+      throw makeHttpError(
+        `Snapshot ${id} not found`,
+        404,
+        "SNAPSHOT_NOT_FOUND"
+      );
+    }
+    if (snapshot.status !== "quarantined") {
+      throw makeHttpError(
+        `Snapshot ${id} is ${snapshot.status}, not quarantined`,
+        409,
+        "NOT_QUARANTINED"
+      );
+    }
+
+    if (action === "reject") {
+      return tx.snapshot.update({
+        where: { id },
+        data: { status: "rejected", reviewedAt: new Date() },
+      });
+    }
+
+    const aggregate = {
+      series: snapshot.series as ProviderSnapshot["series"],
+      sourceMeta: snapshot.sourceMeta as ProviderSnapshot["sourceMeta"],
+    };
+    const stored = withoutSeries(aggregate);
+
+    const approved = await tx.snapshot.update({
+      where: { id },
+      data: {
+        status: "active",
+        reviewedAt: new Date(),
+        series: stored.series,
+        sourceMeta: stored.sourceMeta ?? undefined,
+      },
+    });
+
+    await upsertSeriesPoints(
+      tx,
+      snapshot.marketId,
+      snapshot.source,
+      seriesPointsFromSnapshot(aggregate),
+      id
+    );
+    await recordSnapshotChanges(tx, approved);
+
+    const served = await tx.snapshot.count({
+      where: { marketId: snapshot.marketId, status: "active" },
+    });
+    if (served === 1) {
+      firstServed = true;
+      await tx.market.update({
+        where: { id: snapshot.marketId },
+        data: { hidden: false },
+      });
+    }
+
+    return approved;
+  });
+
+  // Fill in city/state, as adding the ZIP would have on a clean fetch
+  if (firstServed && reviewed.marketId.startsWith("zip:")) {
+    await upsertZipMarket(reviewed.marketId.slice("zip:".length)).catch((e) =>
+      console.warn(
+        `[quality] Could not resolve ${reviewed.marketId}:`,
+        e instanceof Error ? e.message : e
+      )
+    );
+  }
+
+  return reviewed;
+}
@@ -0,0 +1,190 @@
+// src/lib/snapshotRepository.ts
+import type { Prisma, PrismaClient, Snapshot } from "@prisma/client";
+import { recordSnapshotChanges } from "@/lib/marketChanges";
+import { prisma } from "@/lib/prisma";
+import {
+  seriesPointsFromSnapshot,
+  upsertSeriesPoints,
+  withoutSeries,
+} from "@/lib/seriesPoints";
+import {
+  assessSnapshotQuality,
+  ingestedSnapshotData,
+} from "@/lib/snapshotQuality";
+import {
+  INDEX_SOURCES,
+  MARKET_DATA_PROVIDER_IDS,
+  type IndexSource,
+  type ProviderSnapshot,
+  type SnapshotPropertyType,
+  type SnapshotSource,
+} from "@/providers/types";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Every writer stores market-wide rows (see SnapshotPropertyType)
+export const MARKET_WIDE: SnapshotPropertyType = "all";
+
+const SNAPSHOT_SOURCES: SnapshotSource[] = [
+  ...MARKET_DATA_PROVIDER_IDS,
+  ...INDEX_SOURCES,
+];
+
+/** Rows a reader may serve: market-wide, past the quality checks. */
+export function servedSnapshots(
+  sources: readonly string[] = MARKET_DATA_PROVIDER_IDS
+): Prisma.SnapshotWhereInput {
+  return {
+    source: { in: [...sources] },
+    propertyType: MARKET_WIDE,
+    status: "active",
+  };
+}
+
+/**
+ * Newest first. A refresh can return the same provider asOf as the last
+ * one, so ties go to the row we wrote last (its createdAt drives freshness).
+ */
+export const LATEST_SNAPSHOT_FIRST: Prisma.SnapshotOrderByWithRelationInput[] =
+  [{ asOf: "desc" }, { createdAt: "desc" }];
+
+/** Latest served provider snapshot (by asOf) for a market. */
+export function findLatestSnapshot(
+  marketId: string,
+  sources: readonly string[] = MARKET_DATA_PROVIDER_IDS
+): Promise<Snapshot | null> {
+  return prisma.snapshot.findFirst({
+    where: { marketId, ...servedSnapshots(sources) },
+    orderBy: LATEST_SNAPSHOT_FIRST,
+  });
+}
+
+/** Latest snapshot (by asOf) from every source that has one for this market. */
+export async function findLatestSnapshotsBySource(
+  marketId: string
+): Promise<Snapshot[]> {
+  const latest = await Promise.all(
+    SNAPSHOT_SOURCES.map((source) => findLatestSnapshot(marketId, [source]))
+  );
+  return latest.filter((s): s is Snapshot => s != null);
+}
+
+/**
+ * Provider snapshot written since `since`, or quarantined since
+ * `quarantinedSince`: either way a new provider call isn't worth making.
+ */
+export function findRecentProviderSnapshot(
+  db: Db,
+  marketId: string,
+  since: Date,
+  quarantinedSince: Date
+): Promise<Snapshot | null> {
+  return db.snapshot.findFirst({
+    where: {
+      marketId,
+      source: { in: [...MARKET_DATA_PROVIDER_IDS] },
+      propertyType: MARKET_WIDE,
+      OR: [
+        { createdAt: { gte: since } },
+        { status: "quarantined", createdAt: { gte: quarantinedSince } },
+      ],
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Store a freshly fetched provider aggregate. It runs through the ingest
+ * quality checks first; an active row then has its history upserted into
+ * SeriesPoint and its KPI changes logged, a quarantined one keeps
+ * everything inline until reviewed.
+ */
+export async function insertProviderSnapshot(
+  db: Db,
+  marketId: string,
+  source: string,
+  aggregate: ProviderSnapshot,
+  // When the payload was received, if not just now (reprocessed payloads)
+  fetchedAt?: Date
+): Promise<Snapshot> {
+  const verdict = await assessSnapshotQuality(db, {
+    marketId,
+    source,
+    propertyType: MARKET_WIDE,
+    aggregate,
+  });
+
+  const snapshot = await db.snapshot.create({
+    data: {
+      marketId,
+      propertyType: MARKET_WIDE,
+      source,
+      ...ingestedSnapshotData(aggregate, verdict),
+      createdAt: fetchedAt,
+    },
+  });
+
+  if (verdict.status === "active") {
+    await upsertSeriesPoints(
+      db,
+      marketId,
+      source,
+      seriesPointsFromSnapshot(aggregate),
+      snapshot.id
+    );
+    await recordSnapshotChanges(db, snapshot);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Store an imported index snapshot. Re-importing the same release (same
+ * source + asOf) replaces the row instead of stacking duplicates; the full
+ * history (often decades of months) is upserted into SeriesPoint. A new
+ * release is diffed against the previous one into MarketChange.
+ */
+export async function saveIndexSnapshot(
+  marketId: string,
+  source: IndexSource,
+  snapshot: ProviderSnapshot
+): Promise<"created" | "updated"> {
+  const stored = withoutSeries(snapshot);
+  const data = {
+    kpis: snapshot.kpis,
+    series: stored.series,
+    sourceMeta: stored.sourceMeta,
+  };
+  const points = seriesPointsFromSnapshot(snapshot);
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.snapshot.findFirst({
+      where: {
+        marketId,
+        source,
+        propertyType: MARKET_WIDE,
+        asOf: snapshot.asOf,
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      await tx.snapshot.update({ where: { id: existing.id }, data });
+      await upsertSeriesPoints(tx, marketId, source, points, existing.id);
+      return "updated" as const;
+    }
+
+    const created = await tx.snapshot.create({
+      data: {
+        marketId,
+        source,
+        propertyType: MARKET_WIDE,
+        asOf: snapshot.asOf,
+        ...data,
+      },
+    });
+    await upsertSeriesPoints(tx, marketId, source, points, created.id);
+    await recordSnapshotChanges(tx, created);
+    return "created" as const;
+  });
+}
@@ -0,0 +1,104 @@
+// src/lib/snapshotRetention.ts
+import { RETENTION_POLICY } from "@/config/retention";
+import { planRetention, type RetentionPolicy } from "@/domain/retention";
+import { prisma } from "@/lib/prisma";
+
+type RetentionOptions = {
+  // Report only; nothing is deleted
+  dryRun: boolean;
+  // Limit to one market
+  marketId?: string;
+  policy?: RetentionPolicy;
+  now?: Date;
+};
+
+export type RetentionReport = {
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  scanned: number;
+  kept: number;
+  deleted: number;
+  // marketId -> snapshots that are (or would be) deleted
+  markets: Record<
+    string,
+    { kept: number; deleted: { id: number; source: string; asOf: string }[] }
+  >;
+};
+
+const DELETE_CHUNK = 500;
+
+/**
+ * Apply the snapshot retention policy. In dry-run mode the report lists
+ * what would go; otherwise those rows are deleted and everything that
+ * pointed at them (SeriesPoint, MarketChange, RefreshRunItem) is detached
+ * in the same transaction; their values are unaffected.
+ */
+export async function runSnapshotRetention({
+  dryRun,
+  marketId,
+  policy = RETENTION_POLICY,
+  now = new Date(),
+}: RetentionOptions): Promise<RetentionReport> {
+  const snapshots = await prisma.snapshot.findMany({
+    // Quarantined/rejected rows are left for the review queue
+    where: { marketId, status: "active" },
+    select: {
+      id: true,
+      marketId: true,
+      source: true,
+      propertyType: true,
+      asOf: true,
+    },
+  });
+
+  const plan = planRetention(snapshots, policy, now);
+  const doomed = new Set(plan.delete);
+
+  const markets: RetentionReport["markets"] = {};
+  for (const s of snapshots) {
+    const entry = (markets[s.marketId] ??= { kept: 0, deleted: [] });
+    if (doomed.has(s.id)) {
+      entry.deleted.push({
+        id: s.id,
+        source: s.source,
+        asOf: s.asOf.toISOString(),
+      });
+    } else {
+      entry.kept += 1;
+    }
+  }
+
+  if (!dryRun) {
+    for (let i = 0; i < plan.delete.length; i += DELETE_CHUNK) {
+      const ids = plan.delete.slice(i, i + DELETE_CHUNK);
+      await prisma.$transaction([
+        prisma.seriesPoint.updateMany({
+          where: { snapshotId: { in: ids } },
+          data: { snapshotId: null },
+        }),
+        prisma.marketChange.updateMany({
+          where: { snapshotId: { in: ids } },
+          data: { snapshotId: null },
+        }),
+        prisma.marketChange.updateMany({
+          where: { previousSnapshotId: { in: ids } },
+          data: { previousSnapshotId: null },
+        }),
+        prisma.refreshRunItem.updateMany({
+          where: { snapshotId: { in: ids } },
+          data: { snapshotId: null },
+        }),
+        prisma.snapshot.deleteMany({ where: { id: { in: ids } } }),
+      ]);
+    }
+  }
+
+  return {
+    dryRun,
+    policy,
+    scanned: snapshots.length,
+    kept: plan.keep.length,
+    deleted: plan.delete.length,
+    markets,
+  };
+}
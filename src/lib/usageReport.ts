@@ -0,0 +1,233 @@
+// src/lib/usageReport.ts
+import { REFRESH_SCHEDULER } from "@/config/scheduler";
+import {
+  budgetPeriodBounds,
+  budgetPeriodKey,
+  forecastBudget,
+  type BudgetForecast,
+  type BudgetPolicy,
+} from "@/domain/budget";
+import { cronRunsBetween, parseCron } from "@/domain/cron";
+import { getBudgetPolicy } from "@/lib/budget";
+import { parseJobPayload } from "@/lib/jobs";
+import { prisma } from "@/lib/prisma";
+import { gatherCandidates } from "@/lib/refreshScheduler";
+import { findMarketDataProvider } from "@/providers/registry";
+
+type CallCounts = {
+  calls: number;
+  // given back to the budget (provider errors, 404s, ...)
+  refunded: number;
+};
+
+export type UsageReport = {
+  provider: string;
+  policy: BudgetPolicy;
+  period: string;
+  used: number;
+  remaining: number;
+  // Oldest first; one entry per period with any calls
+  history: { period: string; used: number }[];
+  // Ledger breakdown for `period`
+  byMarket: ({ marketId: string | null } & CallCounts)[];
+  byOutcome: ({ outcome: string } & CallCounts)[];
+  byRoute: ({ route: string } & CallCounts)[];
+  forecast: UsageForecast;
+};
+
+export type UsageForecast = BudgetForecast & {
+  // Markets the refresh scheduler keeps fresh through this provider
+  markets: { marketId: string; ttlHours: number; ageHours: number | null }[];
+};
+
+function tally<K extends string | null>(
+  rows: { key: K; refunded: boolean; count: number }[]
+): Map<K, CallCounts> {
+  const totals = new Map<K, CallCounts>();
+  for (const row of rows) {
+    const entry = totals.get(row.key) ?? { calls: 0, refunded: 0 };
+    entry.calls += row.count;
+    if (row.refunded) entry.refunded += row.count;
+    totals.set(row.key, entry);
+  }
+  return totals;
+}
+
+// Fire times left this period of every enabled refresh.scheduler schedule
+// that actually refreshes (dry runs spend nothing)
+async function refreshRunsUntil(end: Date, now: Date) {
+  const schedules = await prisma.schedule.findMany({
+    where: { enabled: true, jobType: "refresh.scheduler" },
+    select: { cron: true, payload: true },
+  });
+
+  return schedules
+    .filter((s) => !parseJobPayload("refresh.scheduler", s.payload).dryRun)
+    .flatMap((s) => cronRunsBetween(parseCron(s.cron), now, end))
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Month-end (or day-end) projection for one provider: the scheduler's
+ * remaining cron runs replayed against the markets it refreshes, plus
+ * everything else at this period's rate.
+ */
+async function forecastUsage(
+  provider: string,
+  policy: BudgetPolicy,
+  used: number,
+  now: Date
+): Promise<UsageForecast> {
+  // Aggregate refreshes are what the schedule covers; the rest is extrapolated
+  const refreshRoute = findMarketDataProvider(provider)?.aggregateRoute;
+  const period = budgetPeriodKey(policy.period, now);
+  const { end } = budgetPeriodBounds(policy.period, now);
+
+  const [unscheduledUsed, candidates, refreshRuns] = await Promise.all([
+    prisma.budgetLedgerEntry.count({
+      where: {
+        provider,
+        period,
+        refunded: false,
+        route: refreshRoute ? { not: refreshRoute } : undefined,
+      },
+    }),
+    gatherCandidates(REFRESH_SCHEDULER, now),
+    refreshRunsUntil(end, now),
+  ]);
+
+  const markets = candidates
+    .filter((c) => c.metered && c.provider === provider)
+    .map(({ marketId, ttlHours, ageHours }) => ({
+      marketId,
+      ttlHours,
+      ageHours,
+    }))
+    .sort((a, b) => a.marketId.localeCompare(b.marketId));
+
+  const forecast = forecastBudget({
+    policy,
+    used,
+    refreshRuns,
+    markets,
+    maxPerRun: REFRESH_SCHEDULER.maxPerRun,
+    reserveCalls: REFRESH_SCHEDULER.reserveCalls,
+    unscheduledUsed,
+    now,
+  });
+
+  return { ...forecast, markets };
+}
+
+/** Whether a provider is projected to run out this period, and when it resets. */
+export async function getQuotaForecast(provider: string, now = new Date()) {
+  const policy = await getBudgetPolicy(provider);
+  const counter = await prisma.budgetCounter.findUnique({
+    where: {
+      provider_period: {
+        provider,
+        period: budgetPeriodKey(policy.period, now),
+      },
+    },
+    select: { used: true },
+  });
+
+  const { overLimit, periodEnd } = await forecastUsage(
+    provider,
+    policy,
+    counter?.used ?? 0,
+    now
+  );
+  return { overLimit, periodEnd };
+}
+
+/**
+ * Budget usage for one provider: the current period against its limit,
+ * used per past period, where the calls went (market, outcome, route) and
+ * a month-end projection from the refresh scheduler. `period` picks the
+ * breakdown's period; the forecast is always for the current one.
+ */
+export async function getUsageReport(
+  provider: string,
+  {
+    period,
+    historyLimit = 12,
+    now = new Date(),
+  }: { period?: string; historyLimit?: number; now?: Date } = {}
+): Promise<UsageReport> {
+  const policy = await getBudgetPolicy(provider);
+  const current = budgetPeriodKey(policy.period, now);
+  const breakdownPeriod = period ?? current;
+
+  const [counters, byMarket, byOutcome, byRoute] = await Promise.all([
+    prisma.budgetCounter.findMany({
+      where: { provider },
+      orderBy: { period: "desc" },
+      take: historyLimit,
+      select: { period: true, used: true },
+    }),
+    prisma.budgetLedgerEntry.groupBy({
+      by: ["marketId", "refunded"],
+      where: { provider, period: breakdownPeriod },
+      _count: { _all: true },
+    }),
+    prisma.budgetLedgerEntry.groupBy({
+      by: ["outcome", "refunded"],
+      where: { provider, period: breakdownPeriod },
+      _count: { _all: true },
+    }),
+    prisma.budgetLedgerEntry.groupBy({
+      by: ["route", "refunded"],
+      where: { provider, period: breakdownPeriod },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const used = counters.find((c) => c.period === current)?.used ?? 0;
+  const forecast = await forecastUsage(provider, policy, used, now);
+
+  const byCalls = (a: CallCounts, b: CallCounts) => b.calls - a.calls;
+
+  return {
+    provider,
+    policy,
+    period: breakdownPeriod,
+    used,
+    remaining: Math.max(0, policy.limit - used),
+    history: counters.reverse(),
+    byMarket: [
+      ...tally(
+        byMarket.map((r) => ({
+          key: r.marketId,
+          refunded: r.refunded,
+          count: r._count._all,
+        }))
+      ),
+    ]
+      .map(([marketId, counts]) => ({ marketId, ...counts }))
+      .sort(byCalls),
+    byOutcome: [
+      ...tally(
+        byOutcome.map((r) => ({
+          key: r.outcome,
+          refunded: r.refunded,
+          count: r._count._all,
+        }))
+      ),
+    ]
+      .map(([outcome, counts]) => ({ outcome, ...counts }))
+      .sort(byCalls),
+    byRoute: [
+      ...tally(
+        byRoute.map((r) => ({
+          key: r.route,
+          refunded: r.refunded,
+          count: r._count._all,
+        }))
+      ),
+    ]
+      .map(([route, counts]) => ({ route, ...counts }))
+      .sort(byCalls),
+    forecast,
+  };
+}
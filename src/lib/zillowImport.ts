@@ -0,0 +1,60 @@
+// src/lib/zillowImport.ts
+import path from "node:path";
+import { trackedZips, type IndexImportResult } from "@/lib/indexSnapshots";
+import { saveIndexSnapshot } from "@/lib/snapshotRepository";
+import {
+  buildZillowSnapshot,
+  readZillowIndexFile,
+  zipToMarketId,
+  type ZillowIndex,
+} from "@/providers/zillow";
+
+type ZillowImportOptions = {
+  zhviFile?: string;
+  zoriFile?: string;
+  // Limit to these ZIPs; defaults to every ZIP market we already track
+  zips?: string[];
+};
+
+/**
+ * Import ZHVI/ZORI CSVs into Snapshot rows with source "zillow", one per
+ * tracked ZIP market.
+ */
+export async function importZillowIndexes({
+  zhviFile,
+  zoriFile,
+  zips,
+}: ZillowImportOptions): Promise<IndexImportResult> {
+  if (!zhviFile && !zoriFile) {
+    throw new Error("[Zillow] Pass a ZHVI and/or ZORI CSV file");
+  }
+
+  const wanted = await trackedZips(zips);
+
+  const zhvi = zhviFile ? await readZillowIndexFile(zhviFile, wanted) : null;
+  const zori = zoriFile ? await readZillowIndexFile(zoriFile, wanted) : null;
+
+  const files: Partial<Record<ZillowIndex, string>> = {
+    zhvi: zhviFile ? path.basename(zhviFile) : undefined,
+    zori: zoriFile ? path.basename(zoriFile) : undefined,
+  };
+
+  const result: IndexImportResult = { created: [], updated: [], missing: [] };
+
+  for (const zip of [...wanted].sort()) {
+    const marketId = zipToMarketId(zip);
+    const zhviRow = zhvi?.get(zip);
+    const zoriRow = zori?.get(zip);
+
+    if (!zhviRow?.values.size && !zoriRow?.values.size) {
+      result.missing.push(marketId);
+      continue;
+    }
+
+    const snapshot = buildZillowSnapshot(zhviRow, zoriRow, files);
+    const outcome = await saveIndexSnapshot(marketId, "zillow", snapshot);
+    result[outcome].push(marketId);
+  }
+
+  return result;
+}
@@ -0,0 +1,34 @@
+// src/lib/zipMarkets.ts
+import type { Market } from "@prisma/client";
+import { resolveZip } from "@/lib/geo";
+import { prisma } from "@/lib/prisma";
+
+// Market.scope for zip:<code> ids (city:<state>:<name> ids use "city")
+export const ZIP_MARKET_SCOPE = "zip";
+
+/**
+ * Create or un-hide the Market row for a ZIP, filling in city/state from
+ * the ZIP lookup (kept as-is when the lookup fails).
+ */
+export async function upsertZipMarket(zip: string): Promise<Market> {
+  const marketId = `zip:${zip}`;
+  const loc = await resolveZip(zip);
+  const city = loc?.city ?? null;
+  const state = loc?.stateCode ?? null;
+
+  return prisma.market.upsert({
+    where: { id: marketId },
+    update: {
+      city: city ?? undefined,
+      state: state ?? undefined,
+      hidden: false,
+    },
+    create: {
+      id: marketId,
+      city,
+      state,
+      scope: ZIP_MARKET_SCOPE,
+      hidden: false,
+    },
+  });
+}
@@ -0,0 +1,49 @@
+// src/providers/fixture.ts
+import { makeHttpError } from "@/lib/httpError";
+import {
+  buildRentCastSnapshot,
+  marketDataParams,
+  parseMarketData,
+} from "@/providers/rentcast";
+import { readRecording, recordingFile } from "@/providers/rentcastRecorder";
+import type {
+  Dimensions,
+  MarketDataProvider,
+  ProviderSnapshot,
+} from "@/providers/types";
+
+// Reads the same /v1/markets recordings as RENTCAST_MODE=replay:
+//   zip:18504 -> fixtures/rentcast/v1/markets/zipCode-18504.json
+async function fetchFixtureAggregate(
+  marketId: string,
+  dims: Dimensions
+): Promise<ProviderSnapshot> {
+  const params = marketDataParams(marketId);
+  const recording = await readRecording("/v1/markets", params);
+
+  if (!recording || recording.status >= 400) {
+    throw makeHttpError(
+      `No fixture data for ${marketId} (expected ${recordingFile(
+        "/v1/markets",
+        params
+      )}).`,
+      422,
+      "FIXTURE_NOT_FOUND"
+    );
+  }
+
+  const marketData = parseMarketData(recording.body, marketId);
+  const snapshot = buildRentCastSnapshot(marketData, dims);
+
+  return {
+    ...snapshot,
+    sourceMeta: { ...snapshot.sourceMeta, provider: "fixture" },
+  };
+}
+
+export const fixtureProvider: MarketDataProvider = {
+  id: "fixture",
+  metered: false,
+  aggregateRoute: "/v1/markets",
+  fetchAggregate: fetchFixtureAggregate,
+};
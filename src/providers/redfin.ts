@@ -0,0 +1,244 @@
+// src/providers/redfin.ts
+import { readDelimitedRows } from "@/lib/csv";
+import type {
+  BreakdownPayload,
+  PropertyTypeBucket,
+  ProviderSnapshot,
+} from "@/providers/types";
+
+/**
+ * Redfin Data Center "ZIP code market tracker" (zip_code_market_tracker.tsv000.gz):
+ * a long-format TSV, one row per ZIP × property type × period, where each
+ * period is a rolling window (90 days for ZIPs) ending on PERIOD_END.
+ */
+
+// How tight the market is; none of this comes from RentCast /v1/markets
+export type MarketTightness = {
+  inventory: number | null;
+  monthsOfSupply: number | null;
+  // average sale price / list price (1.02 = 2% over list)
+  saleToList: number | null;
+  // share of homes sold above list price, 0..1
+  soldAboveList: number | null;
+  homesSold: number | null;
+};
+
+type RedfinRow = MarketTightness & {
+  periodBegin: string;
+  periodEnd: string;
+  periodDays: number | null;
+  medianSalePrice: number | null;
+  medianPpsf: number | null;
+  medianDom: number | null;
+};
+
+type RedfinSegment = "all" | PropertyTypeBucket;
+
+export type RedfinZip = {
+  zip: string;
+  city: string | null;
+  state: string | null;
+  metro: string | null;
+  // segment -> PERIOD_END -> row
+  segments: Map<RedfinSegment, Map<string, RedfinRow>>;
+};
+
+// Redfin PROPERTY_TYPE -> our buckets (Redfin has no 5+ / manufactured split)
+const REDFIN_PROPERTY_TYPES: Record<string, RedfinSegment> = {
+  "All Residential": "all",
+  "Single Family Residential": "sfh",
+  "Condo/Co-op": "condo",
+  Townhouse: "townhouse",
+  "Multi-Family (2-4 Unit)": "2to4",
+};
+
+function toNumber(raw: string | undefined): number | null {
+  if (raw == null || raw === "" || raw.toUpperCase() === "NA") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Stream the tracker and keep rows for the given ZIPs. Lines are matched on
+ * "Zip Code: 12345" before being split, so a multi-GB file only costs a
+ * substring check per row we don't want.
+ */
+export async function readRedfinZipTracker(
+  filePath: string,
+  zips: Set<string>
+): Promise<Map<string, RedfinZip>> {
+  const result = new Map<string, RedfinZip>();
+  const needles = [...zips].map((zip) => `Zip Code: ${zip}`);
+
+  let col: Record<string, number> | null = null;
+
+  for await (const row of readDelimitedRows(filePath, {
+    delimiter: "\t",
+    lineFilter: (line) => needles.some((needle) => line.includes(needle)),
+  })) {
+    if (!col) {
+      // Older exports use lowercase headers
+      col = Object.fromEntries(row.map((name, i) => [name.toUpperCase(), i]));
+      for (const required of ["REGION", "PROPERTY_TYPE", "PERIOD_END"]) {
+        if (col[required] == null) {
+          throw new Error(
+            `[Redfin] ${filePath} has no ${required} column; is this the ZIP market tracker TSV?`
+          );
+        }
+      }
+      continue;
+    }
+
+    const get = (name: string) =>
+      col![name] != null ? row[col![name]] : undefined;
+
+    const zip = get("REGION")?.match(/(\d{5})/)?.[1];
+    if (!zip || !zips.has(zip)) continue;
+
+    // Prefer raw numbers; seasonally adjusted rows are a separate series
+    if (get("IS_SEASONALLY_ADJUSTED")?.toLowerCase().startsWith("t")) continue;
+
+    const segment = REDFIN_PROPERTY_TYPES[get("PROPERTY_TYPE") ?? ""];
+    if (!segment) continue;
+
+    let entry = result.get(zip);
+    if (!entry) {
+      entry = {
+        zip,
+        city: get("CITY") || null,
+        state: get("STATE_CODE") || null,
+        metro: get("PARENT_METRO_REGION") || null,
+        segments: new Map(),
+      };
+      result.set(zip, entry);
+    }
+
+    const periodEnd = get("PERIOD_END") ?? "";
+    const rows = entry.segments.get(segment) ?? new Map<string, RedfinRow>();
+    rows.set(periodEnd, {
+      periodBegin: get("PERIOD_BEGIN") ?? "",
+      periodEnd,
+      periodDays: toNumber(get("PERIOD_DURATION")),
+      medianSalePrice: toNumber(get("MEDIAN_SALE_PRICE")),
+      medianPpsf: toNumber(get("MEDIAN_PPSF")),
+      medianDom: toNumber(get("MEDIAN_DOM")),
+      inventory: toNumber(get("INVENTORY")),
+      monthsOfSupply: toNumber(get("MONTHS_OF_SUPPLY")),
+      saleToList: toNumber(get("AVG_SALE_TO_LIST")),
+      soldAboveList: toNumber(get("SOLD_ABOVE_LIST")),
+      homesSold: toNumber(get("HOMES_SOLD")),
+    });
+    entry.segments.set(segment, rows);
+  }
+
+  return result;
+}
+
+function tightnessOf(row: RedfinRow): MarketTightness {
+  return {
+    inventory: row.inventory,
+    monthsOfSupply: row.monthsOfSupply,
+    saleToList: row.saleToList,
+    soldAboveList: row.soldAboveList,
+    homesSold: row.homesSold,
+  };
+}
+
+// Periods are labelled by their end date; series points use the 1st of that month
+function monthStart(periodEnd: string) {
+  return `${periodEnd.slice(0, 7)}-01T00:00:00.000Z`;
+}
+
+type RedfinSegmentPayload = BreakdownPayload & {
+  tightness: MarketTightness;
+  tightnessSeries: (MarketTightness & { date: string })[];
+};
+
+function buildSegment(rows: Map<string, RedfinRow>): {
+  latest: RedfinRow;
+  payload: RedfinSegmentPayload;
+} {
+  const sorted = [...rows.values()].sort((a, b) =>
+    a.periodEnd.localeCompare(b.periodEnd)
+  );
+  const latest = sorted[sorted.length - 1];
+
+  return {
+    latest,
+    payload: {
+      kpis: {
+        medianPrice: latest.medianSalePrice,
+        medianRent: null,
+        ppsf: latest.medianPpsf,
+        dom: latest.medianDom,
+        confidence: null,
+      },
+      series: sorted.map((r) => ({
+        date: monthStart(r.periodEnd),
+        medianPrice: r.medianSalePrice,
+        medianRent: null,
+      })),
+      tightness: tightnessOf(latest),
+      tightnessSeries: sorted.map((r) => ({
+        date: monthStart(r.periodEnd),
+        ...tightnessOf(r),
+      })),
+    },
+  };
+}
+
+/**
+ * Snapshot for one ZIP: "All Residential" drives kpis/series (sale side
+ * only; Redfin has no rents), tightness metrics and per-type breakdowns
+ * live in sourceMeta.
+ */
+export function buildRedfinSnapshot(
+  data: RedfinZip,
+  file: string
+): ProviderSnapshot {
+  const perType: Partial<Record<PropertyTypeBucket, RedfinSegmentPayload>> = {};
+  let overall: ReturnType<typeof buildSegment> | null = null;
+
+  for (const [segment, rows] of data.segments) {
+    if (rows.size === 0) continue;
+    const built = buildSegment(rows);
+    if (segment === "all") overall = built;
+    else perType[segment] = built.payload;
+  }
+
+  if (!overall && Object.keys(perType).length === 0) {
+    throw new Error(`[Redfin] No rows for ZIP ${data.zip}`);
+  }
+
+  const latest =
+    overall?.latest ??
+    [...data.segments.values()]
+      .flatMap((rows) => [...rows.values()])
+      .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd))
+      .at(-1)!;
+
+  return {
+    asOf: new Date(`${latest.periodEnd}T00:00:00.000Z`),
+    dimensions: {},
+    kpis: overall?.payload.kpis ?? {
+      medianPrice: null,
+      medianRent: null,
+      ppsf: null,
+      dom: null,
+      confidence: null,
+    },
+    series: overall?.payload.series ?? [],
+    sourceMeta: {
+      provider: "redfin",
+      file,
+      zipCode: data.zip,
+      metro: data.metro,
+      periodBegin: latest.periodBegin,
+      periodEnd: latest.periodEnd,
+      periodDays: latest.periodDays,
+      tightness: overall?.payload.tightness ?? null,
+      tightnessSeries: overall?.payload.tightnessSeries ?? [],
+      perType,
+    },
+  };
+}
@@ -0,0 +1,65 @@
+// src/providers/registry.ts
+import { MARKET_PROVIDER_OVERRIDES } from "@/config/markets";
+import { withRentCastBudget } from "@/lib/apiUsage";
+import { withBudget } from "@/lib/budget";
+import { fixtureProvider } from "@/providers/fixture";
+import { rentcastProvider } from "@/providers/rentcast";
+import type {
+  MarketDataProvider,
+  MarketDataProviderId,
+} from "@/providers/types";
+
+const PROVIDERS: Record<MarketDataProviderId, MarketDataProvider> = {
+  rentcast: rentcastProvider,
+  fixture: fixtureProvider,
+};
+
+function isProviderId(value: string): value is MarketDataProviderId {
+  return value in PROVIDERS;
+}
+
+export function findMarketDataProvider(
+  id: string
+): MarketDataProvider | undefined {
+  return isProviderId(id) ? PROVIDERS[id] : undefined;
+}
+
+/**
+ * Resolve the provider for a market:
+ *  1) per-market override in config/markets.ts
+ *  2) MARKET_DATA_PROVIDER env var
+ *  3) RentCast
+ */
+export function getMarketDataProvider(marketId?: string): MarketDataProvider {
+  const override = marketId ? MARKET_PROVIDER_OVERRIDES[marketId] : undefined;
+  const fromEnv = process.env.MARKET_DATA_PROVIDER;
+
+  if (override) return PROVIDERS[override];
+
+  if (fromEnv) {
+    if (!isProviderId(fromEnv)) {
+      throw new Error(`Unknown MARKET_DATA_PROVIDER: ${fromEnv}`);
+    }
+    return PROVIDERS[fromEnv];
+  }
+
+  return PROVIDERS.rentcast;
+}
+
+/**
+ * Charge a provider call to that provider's own budget. Only metered
+ * providers go through the ledger; RentCast also gets its error mapping
+ * and refund rules (lib/apiUsage.ts).
+ */
+export function withProviderBudget<T>(
+  provider: MarketDataProvider,
+  marketId: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!provider.metered) return fn();
+
+  const context = { marketId, route: provider.aggregateRoute };
+  return provider.id === "rentcast"
+    ? withRentCastBudget(context, fn)
+    : withBudget(provider.id, context, fn);
+}
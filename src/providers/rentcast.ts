@@ -1,29 +1,48 @@
 // src/providers/rentcast.ts
-export type Dimensions = { propertyType?: "sfh" | "condo" | "2to4" };
-
-export type ProviderSnapshot = {
-  asOf: Date;
-  dimensions: Dimensions;
-  kpis: {
-    medianPrice: number | null;
-    medianRent: number | null;
-    ppsf: number | null;
-    dom: number | null;
-    confidence: number | null;
-  };
-  series: {
-    date: string;
-    medianPrice: number | null;
-    medianRent: number | null;
-  }[];
-  sourceMeta?: any; // per-type breakdown, provider info, etc.
-};
+import {
+  PROPERTY_TYPE_BUCKETS,
+  type BreakdownPayload,
+  type Dimensions,
+  type MarketDataProvider,
+  type PropertyTypeBucket,
+  type ProviderSnapshot,
+} from "@/providers/types";
+import {
+  listingsResponseSchema,
+  marketDataResponseSchema,
+  parseRentCastResponse,
+  rentEstimateSchema,
+  valueEstimateSchema,
+  type MarketDataResponse,
+  type RentCastListing,
+  type RentCastRentEstimate,
+  type RentCastValueEstimate,
+  type RentalData,
+  type RentalTypeRow,
+  type SaleData,
+  type SaleTypeRow,
+} from "@/providers/rentcastSchemas";
+import { createCircuitBreaker } from "@/lib/circuitBreaker";
+import { makeHttpError } from "@/lib/httpError";
+import { archiveRawPayload, markRawPayloadUnparsed } from "@/lib/rawPayloads";
+import { backoffDelay, parseRetryAfter, sleep } from "@/lib/retry";
+import {
+  getRentCastMode,
+  readRecording,
+  recordingFile,
+  writeRecording,
+} from "@/providers/rentcastRecorder";
+import {
+  assessConfidence,
+  combineConfidence,
+  type KpiConfidence,
+} from "@/domain/confidence";
 
 const RENTCAST_BASE_URL =
   process.env.RENTCAST_BASE_URL ?? "https://api.rentcast.io";
 const RENTCAST_API_KEY = process.env.RENTCAST_API_KEY;
 
-if (!RENTCAST_API_KEY) {
+if (!RENTCAST_API_KEY && process.env.RENTCAST_MODE !== "replay") {
   console.warn(
     "[RentCast] Missing RENTCAST_API_KEY – provider calls will fail until set."
   );
@@ -49,47 +68,197 @@ function parseMarketId(marketId: string): {
   return {};
 }
 
+// Retry policy: attempts per logical request (first try included)
+const RENTCAST_MAX_ATTEMPTS = Number(process.env.RENTCAST_MAX_ATTEMPTS ?? 3);
+// Don't sit on a request longer than this for a 429 Retry-After
+const RENTCAST_MAX_RETRY_AFTER_MS = 30_000;
+
+// Stop calling RentCast for a while after repeated failed requests
+const rentcastCircuit = createCircuitBreaker({
+  failureThreshold: Number(process.env.RENTCAST_CIRCUIT_THRESHOLD ?? 3),
+  cooldownMs: Number(process.env.RENTCAST_CIRCUIT_COOLDOWN_MS ?? 5 * 60_000),
+});
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+function rentcastHttpError(status: number, statusText: string, text: string) {
+  return new Error(`[RentCast] ${status} ${statusText}: ${text || "No body"}`);
+}
+
+/**
+ * Serve a request from disk (RENTCAST_MODE=replay). A missing recording is a
+ * hard error rather than a silent live call, so offline runs stay offline.
+ */
+async function replayRentCast(
+  path: string,
+  searchParams: Record<string, string>
+): Promise<unknown> {
+  const recording = await readRecording(path, searchParams);
+
+  if (!recording) {
+    throw makeHttpError(
+      `[RentCast replay] No recording for ${path} ${JSON.stringify(
+        searchParams
+      )} (expected ${recordingFile(path, searchParams)}). Record it with RENTCAST_MODE=record.`,
+      500,
+      "RENTCAST_REPLAY_MISS"
+    );
+  }
+
+  console.log(`[RentCast] Replaying ${path}`, searchParams);
+
+  if (recording.status >= 400) {
+    throw rentcastHttpError(
+      recording.status,
+      recording.statusText,
+      typeof recording.body === "string"
+        ? recording.body
+        : JSON.stringify(recording.body)
+    );
+  }
+
+  return recording.body;
+}
+
+/**
+ * One logical RentCast request. 5xx and network errors are retried with
+ * jittered exponential backoff; 429 waits for Retry-After when it is short
+ * enough. Only the final outcome counts towards the circuit breaker.
+ *
+ * RENTCAST_MODE=record saves successful responses and plain 4xx answers
+ * (e.g. 404 no data); transient 429/5xx failures are never recorded.
+ */
 async function rentcastFetch(
   path: string,
   searchParams: Record<string, string>
-): Promise<any> {
+): Promise<unknown> {
+  const mode = getRentCastMode();
+  if (mode === "replay") {
+    return replayRentCast(path, searchParams);
+  }
+
   if (!RENTCAST_API_KEY) {
     throw new Error("RENTCAST_API_KEY not set");
   }
 
+  if (!rentcastCircuit.canRequest()) {
+    const retryInSec = Math.ceil(rentcastCircuit.retryInMs() / 1000);
+    throw makeHttpError(
+      `[RentCast] Circuit open after repeated failures; retry in ${retryInSec}s`,
+      503,
+      "RENTCAST_CIRCUIT_OPEN"
+    );
+  }
+
   const url = new URL(path, RENTCAST_BASE_URL);
   Object.entries(searchParams).forEach(([k, v]) => url.searchParams.set(k, v));
 
-  console.log("[RentCast] Calling:", url.toString());
+  for (let attempt = 1; ; attempt++) {
+    console.log(
+      `[RentCast] Calling (attempt ${attempt}/${RENTCAST_MAX_ATTEMPTS}):`,
+      url.toString()
+    );
 
-  const res = await fetch(url.toString(), {
-    headers: { "X-Api-Key": RENTCAST_API_KEY },
-    next: { revalidate: 60 * 60 },
-  });
+    let res: Response;
+    try {
+      res = await fetch(url.toString(), {
+        headers: { "X-Api-Key": RENTCAST_API_KEY },
+        next: { revalidate: 60 * 60 },
+      });
+    } catch (e: unknown) {
+      if (attempt < RENTCAST_MAX_ATTEMPTS) {
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+
+      rentcastCircuit.recordFailure();
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new Error(`[RentCast] Network error: ${reason}`);
+    }
+
+    if (res.ok) {
+      rentcastCircuit.recordSuccess();
+      const body: unknown = await res.json();
+
+      if (mode === "record") {
+        await writeRecording({
+          path,
+          params: searchParams,
+          status: res.status,
+          statusText: res.statusText,
+          body,
+        });
+      }
+
+      return body;
+    }
 
-  if (!res.ok) {
     const text = await res.text();
-    throw new Error(
-      `[RentCast] ${res.status} ${res.statusText}: ${text || "No body"}`
-    );
-  }
 
-  return res.json();
-}
+    if (isRetryableStatus(res.status) && attempt < RENTCAST_MAX_ATTEMPTS) {
+      const delay =
+        res.status === 429
+          ? (parseRetryAfter(res.headers.get("retry-after")) ??
+            backoffDelay(attempt))
+          : backoffDelay(attempt);
+
+      if (delay <= RENTCAST_MAX_RETRY_AFTER_MS) {
+        console.warn(
+          `[RentCast] ${res.status} on attempt ${attempt}; retrying in ${delay}ms`
+        );
+        await sleep(delay);
+        continue;
+      }
+    }
 
+    // Plain 4xx means RentCast is up and answered; only 429/5xx trip the breaker
+    if (isRetryableStatus(res.status)) {
+      rentcastCircuit.recordFailure();
+    } else {
+      rentcastCircuit.recordSuccess();
+
+      if (mode === "record") {
+        await writeRecording({
+          path,
+          params: searchParams,
+          status: res.status,
+          statusText: res.statusText,
+          body: text,
+        });
+      }
+    }
 
-// ===== /v1/markets types + fetch =====
+    throw rentcastHttpError(res.status, res.statusText, text);
+  }
+}
 
-type MarketDataResponse = {
-  id: string;
-  zipCode?: string;
-  saleData?: any;
-  rentalData?: any;
-};
+// ===== /v1/markets fetch =====
 
-async function fetchMarketData(
+/**
+ * Validate a raw /v1/markets payload. Throws RentCastSchemaError
+ * (RENTCAST_SCHEMA_MISMATCH) when the shape has drifted.
+ */
+export function parseMarketData(
+  raw: unknown,
   marketId: string
-): Promise<MarketDataResponse> {
+): MarketDataResponse {
+  // Be defensive: if RentCast ever returns an array, grab the first item
+  if (Array.isArray(raw)) {
+    if (!raw[0]) {
+      throw new Error(
+        `[RentCast] /v1/markets returned an empty array for ${marketId}`
+      );
+    }
+    raw = raw[0];
+  }
+
+  return parseRentCastResponse(marketDataResponseSchema, "/v1/markets", raw);
+}
+
+/** Query params for /v1/markets; also the key the fixture provider reads by. */
+export function marketDataParams(marketId: string): Record<string, string> {
   const location = parseMarketId(marketId);
   const params: Record<string, string> = {};
 
@@ -104,19 +273,97 @@ async function fetchMarketData(
     );
   }
 
+  return params;
+}
+
+async function fetchMarketData(
+  marketId: string
+): Promise<{ marketData: MarketDataResponse; rawPayloadId: number | null }> {
+  const params = marketDataParams(marketId);
   const raw = await rentcastFetch("/v1/markets", params);
 
-  // Be defensive: if RentCast ever returns an array, grab the first item
-  if (Array.isArray(raw)) {
-    if (!raw[0]) {
-      throw new Error(
-        `[RentCast] /v1/markets returned an empty array for ${marketId}`
-      );
-    }
-    return raw[0] as MarketDataResponse;
+  // Archived before parsing; a payload that trips the schema check is
+  // flagged, and reprocessSnapshots builds its snapshot once the code is fixed
+  const rawPayloadId = await archiveRawPayload({
+    provider: "rentcast",
+    endpoint: "/v1/markets",
+    marketId,
+    params,
+    body: raw,
+  });
+
+  try {
+    return { marketData: parseMarketData(raw, marketId), rawPayloadId };
+  } catch (e) {
+    if (rawPayloadId != null) await markRawPayloadUnparsed(rawPayloadId, e);
+    throw e;
+  }
+}
+
+// ===== /v1/listings fetch =====
+
+export type ListingKind = "sale" | "rental";
+
+export const LISTINGS_PATHS: Record<ListingKind, string> = {
+  sale: "/v1/listings/sale",
+  rental: "/v1/listings/rental/long-term",
+};
+
+// RentCast caps a single listings page at 500 results
+const LISTINGS_PAGE_LIMIT = 500;
+
+/**
+ * Active sale or long-term rental listings for a ZIP market.
+ * One call = one budget unit, so callers wrap this in withRentCastBudget.
+ */
+export async function fetchRentCastListings(
+  marketId: string,
+  kind: ListingKind
+): Promise<RentCastListing[]> {
+  const { zip } = parseMarketId(marketId);
+  if (!zip) {
+    throw new Error(
+      `[RentCast] Listings are only supported for ZIP markets: ${marketId}`
+    );
   }
 
-  return raw as MarketDataResponse;
+  const path = LISTINGS_PATHS[kind];
+  const raw = await rentcastFetch(path, {
+    zipCode: zip,
+    status: "Active",
+    limit: String(LISTINGS_PAGE_LIMIT),
+  });
+
+  return parseRentCastResponse(listingsResponseSchema, path, raw);
+}
+
+// ===== /v1/avm fetch =====
+
+// Number of comparables RentCast returns alongside an AVM estimate
+const AVM_COMP_COUNT = 10;
+
+/** Long-term rent estimate + comparables for a street address (one budget unit). */
+export async function fetchRentCastRentEstimate(
+  address: string
+): Promise<RentCastRentEstimate> {
+  const path = "/v1/avm/rent/long-term";
+  const raw = await rentcastFetch(path, {
+    address,
+    compCount: String(AVM_COMP_COUNT),
+  });
+  return parseRentCastResponse(rentEstimateSchema, path, raw);
+}
+
+/** Value estimate + comparables for a street address (one budget unit). */
+export async function fetchRentCastValueEstimate(
+  address: string
+): Promise<RentCastValueEstimate> {
+  const path = "/v1/avm/value";
+  const raw = await rentcastFetch(path, {
+    address,
+    compCount: String(AVM_COMP_COUNT),
+  });
+  return parseRentCastResponse(valueEstimateSchema, path, raw);
 }
 
 // ===== helpers =====
@@ -129,51 +376,122 @@ type SimpleKpis = {
   confidence: number | null;
 };
 
-function computeConfidence(sampleSize: number): number {
-  if (sampleSize >= 200) return 0.95;
-  if (sampleSize >= 100) return 0.9;
-  if (sampleSize >= 40) return 0.7;
-  if (sampleSize > 0) return 0.5;
-  return 0.2;
+type SeriesRow = {
+  date: string;
+  medianPrice: number | null;
+  medianRent: number | null;
+};
+
+type SaleSample = Pick<
+  SaleTypeRow,
+  "medianPrice" | "minPrice" | "maxPrice" | "totalListings"
+>;
+type RentalSample = Pick<
+  RentalTypeRow,
+  "medianRent" | "minRent" | "maxRent" | "totalListings"
+>;
+
+function toDateOrNull(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
 }
 
-function mapPropertyTypeToBucket(
+function monthsWithValue(
+  series: SeriesRow[],
+  field: "medianPrice" | "medianRent"
+): string[] {
+  return series
+    .filter((p) => typeof p[field] === "number")
+    .map((p) => new Date(p.date).toISOString().slice(0, 7));
+}
+
+// Confidence for one slice: sale side backs price KPIs, rental side backs rent
+function computeConfidence(
+  saleRow: SaleSample | null | undefined,
+  rentRow: RentalSample | null | undefined,
+  series: SeriesRow[],
+  saleData?: SaleData | null,
+  rentalData?: RentalData | null
+): KpiConfidence {
+  const price = saleRow
+    ? assessConfidence({
+        sampleSize: saleRow.totalListings ?? 0,
+        median: saleRow.medianPrice,
+        min: saleRow.minPrice ?? null,
+        max: saleRow.maxPrice ?? null,
+        lastUpdated: toDateOrNull(saleData?.lastUpdatedDate),
+        historyMonths: monthsWithValue(series, "medianPrice"),
+      })
+    : null;
+
+  const rent = rentRow
+    ? assessConfidence({
+        sampleSize: rentRow.totalListings ?? 0,
+        median: rentRow.medianRent,
+        min: rentRow.minRent ?? null,
+        max: rentRow.maxRent ?? null,
+        lastUpdated: toDateOrNull(rentalData?.lastUpdatedDate),
+        historyMonths: monthsWithValue(series, "medianRent"),
+      })
+    : null;
+
+  return combineConfidence(price, rent);
+}
+
+export function mapPropertyTypeToBucket(
   propertyType: string | null | undefined
-): "sfh" | "condo" | "2to4" | "other" {
+): PropertyTypeBucket | "other" {
   const raw = (propertyType ?? "").toLowerCase();
 
   if (raw.includes("single")) return "sfh";
   if (raw.includes("condo")) return "condo";
+  if (raw.includes("town")) return "townhouse";
+  if (raw.includes("manufactured") || raw.includes("mobile")) {
+    return "manufactured";
+  }
+  // RentCast "Multi-Family" is 2–4 units; 5+ unit buildings are "Apartment"
   if (raw.includes("multi")) return "2to4";
+  if (raw.includes("apartment")) return "5plus";
 
   return "other";
 }
 
 // overall KPIs from saleData/rentalData (latest window)
 function computeKpisFromMarketData(
-  saleData: any | undefined,
-  rentalData: any | undefined
-): SimpleKpis {
+  saleData: SaleData | null | undefined,
+  rentalData: RentalData | null | undefined,
+  series: SeriesRow[]
+): { kpis: SimpleKpis; confidence: KpiConfidence } {
   const medianPrice: number | null = saleData?.medianPrice ?? null;
   const medianRent: number | null = rentalData?.medianRent ?? null;
-  const ppsf: number | null =
-    saleData?.medianPricePerSquareFoot ?? null;
-  const dom: number | null =
-    saleData?.medianDaysOnMarket ?? null;
-
-  const saleCount = saleData?.totalListings ?? 0;
-  const rentalCount = rentalData?.totalListings ?? 0;
-  const sampleSize = saleCount + rentalCount;
+  const ppsf: number | null = saleData?.medianPricePerSquareFoot ?? null;
+  const dom: number | null = saleData?.medianDaysOnMarket ?? null;
 
-  const confidence = computeConfidence(sampleSize);
+  const confidence = computeConfidence(
+    saleData,
+    rentalData,
+    series,
+    saleData,
+    rentalData
+  );
 
-  return { medianPrice, medianRent, ppsf, dom, confidence };
+  return {
+    kpis: {
+      medianPrice,
+      medianRent,
+      ppsf,
+      dom,
+      confidence: confidence.overall.score,
+    },
+    confidence,
+  };
 }
 
 // overall series from saleData.history + rentalData.history
 function buildOverallSeriesFromHistory(
-  saleData?: any,
-  rentalData?: any
+  saleData?: SaleData | null,
+  rentalData?: RentalData | null
 ): { date: string; medianPrice: number | null; medianRent: number | null }[] {
   type Bucket = {
     date: string;
@@ -193,7 +511,7 @@ function buildOverallSeriesFromHistory(
 
   // sales side
   if (saleData?.history) {
-    Object.values(saleData.history as any).forEach((entry: any) => {
+    Object.values(saleData.history).forEach((entry) => {
       const key = monthKeyFromDate(entry.date);
       if (!key) return;
       const existing =
@@ -214,7 +532,7 @@ function buildOverallSeriesFromHistory(
 
   // rentals side
   if (rentalData?.history) {
-    Object.values(rentalData.history as any).forEach((entry: any) => {
+    Object.values(rentalData.history).forEach((entry) => {
       const key = monthKeyFromDate(entry.date);
       if (!key) return;
       const existing =
@@ -240,11 +558,11 @@ function buildOverallSeriesFromHistory(
   });
 }
 
-// per-type series for one bucket (sfh/condo/2to4)
+// per-type series for one bucket (sfh/condo/townhouse/...)
 function buildTypeSeries(
-  bucketName: "sfh" | "condo" | "2to4",
-  saleData?: any,
-  rentalData?: any
+  bucketName: PropertyTypeBucket,
+  saleData?: SaleData | null,
+  rentalData?: RentalData | null
 ): { date: string; medianPrice: number | null; medianRent: number | null }[] {
   type Bucket = {
     date: string;
@@ -263,13 +581,12 @@ function buildTypeSeries(
 
   // sales history per type
   if (saleData?.history) {
-    Object.values(saleData.history as any).forEach((entry: any) => {
+    Object.values(saleData.history).forEach((entry) => {
       const key = monthKeyFromDate(entry.date);
       if (!key) return;
 
       const typeRow = (entry.dataByPropertyType ?? []).find(
-        (row: any) =>
-          mapPropertyTypeToBucket(row.propertyType) === bucketName
+        (row) => mapPropertyTypeToBucket(row.propertyType) === bucketName
       );
       if (!typeRow) return;
 
@@ -291,13 +608,12 @@ function buildTypeSeries(
 
   // rental history per type
   if (rentalData?.history) {
-    Object.values(rentalData.history as any).forEach((entry: any) => {
+    Object.values(rentalData.history).forEach((entry) => {
       const key = monthKeyFromDate(entry.date);
       if (!key) return;
 
       const typeRow = (entry.dataByPropertyType ?? []).find(
-        (row: any) =>
-          mapPropertyTypeToBucket(row.propertyType) === bucketName
+        (row) => mapPropertyTypeToBucket(row.propertyType) === bucketName
       );
       if (!typeRow) return;
 
@@ -324,36 +640,131 @@ function buildTypeSeries(
   });
 }
 
+// per-bedroom series for one bedroom count (all property types)
+function buildBedroomSeries(
+  bedrooms: number,
+  saleData?: SaleData | null,
+  rentalData?: RentalData | null
+): { date: string; medianPrice: number | null; medianRent: number | null }[] {
+  type Bucket = {
+    date: string;
+    medianPrice: number | null;
+    medianRent: number | null;
+  };
+
+  const buckets = new Map<string, Bucket>();
+
+  function monthKeyFromDate(dateStr: string | undefined): string | null {
+    if (!dateStr) return null;
+    const d = new Date(dateStr);
+    if (Number.isNaN(d.getTime())) return null;
+    return d.toISOString().slice(0, 7);
+  }
+
+  function bucketFor(key: string, date: string): Bucket {
+    return buckets.get(key) ?? { date, medianPrice: null, medianRent: null };
+  }
+
+  // sales history per bedroom count
+  Object.values(saleData?.history ?? {}).forEach((entry) => {
+    const key = monthKeyFromDate(entry.date);
+    if (!key) return;
+
+    const row = (entry.dataByBedrooms ?? []).find(
+      (r) => r.bedrooms === bedrooms
+    );
+    if (!row) return;
+
+    const existing = bucketFor(key, entry.date);
+    if (typeof row.medianPrice === "number") {
+      existing.medianPrice = row.medianPrice;
+    }
+    buckets.set(key, existing);
+  });
+
+  // rental history per bedroom count
+  Object.values(rentalData?.history ?? {}).forEach((entry) => {
+    const key = monthKeyFromDate(entry.date);
+    if (!key) return;
+
+    const row = (entry.dataByBedrooms ?? []).find(
+      (r) => r.bedrooms === bedrooms
+    );
+    if (!row) return;
+
+    const existing = bucketFor(key, entry.date);
+    if (typeof row.medianRent === "number") {
+      existing.medianRent = row.medianRent;
+    }
+    buckets.set(key, existing);
+  });
+
+  return Array.from(buckets.values()).sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+}
+
+// per-bedroom KPIs + series, keyed by bedroom count ("0" = studio)
+function computePerBedroomFromMarketData(
+  saleData?: SaleData | null,
+  rentalData?: RentalData | null
+): Record<string, BreakdownPayload> {
+  const result: Record<string, BreakdownPayload> = {};
+
+  const saleRows = saleData?.dataByBedrooms ?? [];
+  const rentalRows = rentalData?.dataByBedrooms ?? [];
+
+  const bedroomCounts = Array.from(
+    new Set([...saleRows, ...rentalRows].map((row) => row.bedrooms))
+  ).sort((a, b) => a - b);
+
+  bedroomCounts.forEach((bedrooms) => {
+    const saleRow = saleRows.find((row) => row.bedrooms === bedrooms);
+    const rentRow = rentalRows.find((row) => row.bedrooms === bedrooms);
+
+    const series = buildBedroomSeries(bedrooms, saleData, rentalData);
+    const confidence = computeConfidence(
+      saleRow,
+      rentRow,
+      series,
+      saleData,
+      rentalData
+    );
+
+    const kpis: SimpleKpis = {
+      medianPrice: saleRow?.medianPrice ?? null,
+      medianRent: rentRow?.medianRent ?? null,
+      ppsf: saleRow?.medianPricePerSquareFoot ?? null,
+      dom: saleRow?.medianDaysOnMarket ?? null,
+      confidence: confidence.overall.score,
+    };
+
+    result[String(bedrooms)] = { kpis, series, confidence };
+  });
+
+  return result;
+}
+
 // per-type KPIs + series
 function computePerTypeFromMarketData(
-  saleData?: any,
-  rentalData?: any
-): {
-  sfh?: {
-    kpis: SimpleKpis;
-    series: { date: string; medianPrice: number | null; medianRent: number | null }[];
-  };
-  condo?: {
-    kpis: SimpleKpis;
-    series: { date: string; medianPrice: number | null; medianRent: number | null }[];
-  };
-  "2to4"?: {
-    kpis: SimpleKpis;
-    series: { date: string; medianPrice: number | null; medianRent: number | null }[];
-  };
-} {
-  const result: any = {};
+  saleData?: SaleData | null,
+  rentalData?: RentalData | null
+): Partial<Record<PropertyTypeBucket, BreakdownPayload>> {
+  const result: Partial<Record<PropertyTypeBucket, BreakdownPayload>> = {};
 
   const saleTypes = saleData?.dataByPropertyType ?? [];
   const rentalTypes = rentalData?.dataByPropertyType ?? [];
 
-  function findTypeRow(arr: any[], bucket: "sfh" | "condo" | "2to4") {
+  function findTypeRow<Row extends SaleTypeRow | RentalTypeRow>(
+    arr: Row[],
+    bucket: PropertyTypeBucket
+  ): Row | undefined {
     return arr.find(
-      (row: any) => mapPropertyTypeToBucket(row.propertyType) === bucket
+      (row) => mapPropertyTypeToBucket(row.propertyType) === bucket
     );
   }
 
-  (["sfh", "condo", "2to4"] as const).forEach((bucket) => {
+  PROPERTY_TYPE_BUCKETS.forEach((bucket) => {
     const saleRow = findTypeRow(saleTypes, bucket);
     const rentRow = findTypeRow(rentalTypes, bucket);
 
@@ -363,53 +774,53 @@ function computePerTypeFromMarketData(
 
     const medianPrice: number | null = saleRow?.medianPrice ?? null;
     const medianRent: number | null = rentRow?.medianRent ?? null;
-    const ppsf: number | null =
-      saleRow?.medianPricePerSquareFoot ?? null;
-    const dom: number | null =
-      saleRow?.medianDaysOnMarket ?? null;
+    const ppsf: number | null = saleRow?.medianPricePerSquareFoot ?? null;
+    const dom: number | null = saleRow?.medianDaysOnMarket ?? null;
 
-    const saleCount = saleRow?.totalListings ?? 0;
-    const rentalCount = rentRow?.totalListings ?? 0;
-    const sampleSize = saleCount + rentalCount;
-    const confidence = computeConfidence(sampleSize);
+    const series = buildTypeSeries(bucket, saleData, rentalData);
+    const confidence = computeConfidence(
+      saleRow,
+      rentRow,
+      series,
+      saleData,
+      rentalData
+    );
 
     const kpis: SimpleKpis = {
       medianPrice,
       medianRent,
       ppsf,
       dom,
-      confidence,
+      confidence: confidence.overall.score,
     };
 
-    const series = buildTypeSeries(bucket, saleData, rentalData);
-
-    result[bucket] = { kpis, series };
+    result[bucket] = { kpis, series, confidence };
   });
 
   return result;
 }
 
 /**
- * High-level aggregate using /v1/markets:
- *  - overall KPIs + series from saleData/rentalData + history
- *  - per-type KPIs + series in sourceMeta.perType for sfh / condo / 2–4 units
+ * Turns a raw /v1/markets payload into a ProviderSnapshot.
+ * Shared with the fixture provider so offline data goes through the
+ * same aggregation code as live RentCast data.
  */
-export async function fetchRentCastAggregate(
-  marketId: string,
+export function buildRentCastSnapshot(
+  marketData: MarketDataResponse,
   dims: Dimensions
-): Promise<ProviderSnapshot> {
-  const marketData = await fetchMarketData(marketId);
-
+): ProviderSnapshot {
   const saleData = marketData.saleData;
   const rentalData = marketData.rentalData;
 
-  const overallKpis = computeKpisFromMarketData(saleData, rentalData);
-  const overallSeries = buildOverallSeriesFromHistory(
+  const overallSeries = buildOverallSeriesFromHistory(saleData, rentalData);
+  const overall = computeKpisFromMarketData(
     saleData,
-    rentalData
+    rentalData,
+    overallSeries
   );
 
   const perType = computePerTypeFromMarketData(saleData, rentalData);
+  const perBedroom = computePerBedroomFromMarketData(saleData, rentalData);
 
   const asOf =
     saleData?.lastUpdatedDate ??
@@ -419,13 +830,44 @@ export async function fetchRentCastAggregate(
   return {
     asOf: new Date(asOf),
     dimensions: dims,
-    kpis: overallKpis,
+    kpis: overall.kpis,
     series: overallSeries,
     sourceMeta: {
       provider: "rentcast_market_data",
       rawMarketId: marketData.id,
       zipCode: marketData.zipCode ?? null,
+      confidence: overall.confidence,
+      // Listings behind the overall medians (checked at ingest, see domain/quality.ts)
+      sampleSize: {
+        sale: saleData?.totalListings ?? null,
+        rent: rentalData?.totalListings ?? null,
+      },
       perType,
+      perBedroom,
     },
   };
 }
+
+/**
+ * High-level aggregate using /v1/markets:
+ *  - overall KPIs + series from saleData/rentalData + history
+ *  - confidence (score + reasons) overall and per slice, see domain/confidence.ts
+ *  - per-type KPIs + series in sourceMeta.perType for every PROPERTY_TYPE_BUCKETS
+ *    entry (sfh / condo / townhouse / 2–4 / 5+ / manufactured)
+ *  - per-bedroom KPIs + series in sourceMeta.perBedroom ("0" = studio)
+ *  - rawPayloadId of the archived response it was built from
+ */
+export async function fetchRentCastAggregate(
+  marketId: string,
+  dims: Dimensions
+): Promise<ProviderSnapshot> {
+  const { marketData, rawPayloadId } = await fetchMarketData(marketId);
+  return { ...buildRentCastSnapshot(marketData, dims), rawPayloadId };
+}
+
+export const rentcastProvider: MarketDataProvider = {
+  id: "rentcast",
+  metered: true,
+  aggregateRoute: "/v1/markets",
+  fetchAggregate: fetchRentCastAggregate,
+};
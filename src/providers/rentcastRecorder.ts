@@ -0,0 +1,89 @@
+// src/providers/rentcastRecorder.ts
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+/**
+ * RENTCAST_MODE:
+ *  - live   (default) call the API
+ *  - record call the API and save each final response to disk
+ *  - replay serve saved responses only; never touches the network
+ */
+export type RentCastMode = "live" | "record" | "replay";
+
+const RENTCAST_MODES: RentCastMode[] = ["live", "record", "replay"];
+
+// One JSON file per request:
+//   /v1/markets?zipCode=18504 -> fixtures/rentcast/v1/markets/zipCode-18504.json
+const RECORDINGS_DIR =
+  process.env.RENTCAST_FIXTURES_DIR ??
+  path.join(process.cwd(), "fixtures", "rentcast");
+
+export type RentCastRecording = {
+  path: string;
+  params: Record<string, string>;
+  status: number;
+  statusText: string;
+  body: unknown;
+  recordedAt: string;
+};
+
+export function getRentCastMode(): RentCastMode {
+  const mode = process.env.RENTCAST_MODE ?? "live";
+  if (!RENTCAST_MODES.includes(mode as RentCastMode)) {
+    throw new Error(
+      `Unknown RENTCAST_MODE: ${mode} (expected ${RENTCAST_MODES.join(" | ")})`
+    );
+  }
+  return mode as RentCastMode;
+}
+
+function slug(value: string) {
+  return value.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/** File a request is recorded to; params are sorted so key order doesn't matter. */
+export function recordingFile(
+  apiPath: string,
+  params: Record<string, string>
+): string {
+  const segments = apiPath.split("/").filter(Boolean).map(slug);
+  const name =
+    Object.keys(params)
+      .sort()
+      .map((k) => `${slug(k)}-${slug(params[k])}`)
+      .join("__") || "index";
+
+  return path.join(RECORDINGS_DIR, ...segments, `${name}.json`);
+}
+
+/** Saved response for a request, or null when nothing was recorded. */
+export async function readRecording(
+  apiPath: string,
+  params: Record<string, string>
+): Promise<RentCastRecording | null> {
+  const file = recordingFile(apiPath, params);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    throw e;
+  }
+
+  return JSON.parse(raw) as RentCastRecording;
+}
+
+export async function writeRecording(
+  recording: Omit<RentCastRecording, "recordedAt">
+): Promise<void> {
+  const file = recordingFile(recording.path, recording.params);
+  const data: RentCastRecording = {
+    ...recording,
+    recordedAt: new Date().toISOString(),
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(data, null, 2) + "\n", "utf8");
+  console.log(`[RentCast] Recorded ${recording.path} -> ${file}`);
+}
@@ -0,0 +1,179 @@
+// src/providers/rentcastSchemas.ts
+import { z } from "zod";
+
+// Keys RentCast always sends are required-but-nullable: a renamed or dropped
+// field fails parsing instead of silently turning into null.
+const num = z.number().nullable();
+const optNum = z.number().nullish();
+
+const saleStatsShape = {
+  averagePrice: optNum,
+  medianPrice: num,
+  minPrice: optNum,
+  maxPrice: optNum,
+  averagePricePerSquareFoot: optNum,
+  medianPricePerSquareFoot: optNum,
+  averageDaysOnMarket: optNum,
+  medianDaysOnMarket: optNum,
+  newListings: optNum,
+  totalListings: num,
+};
+
+const rentalStatsShape = {
+  averageRent: optNum,
+  medianRent: num,
+  minRent: optNum,
+  maxRent: optNum,
+  averageRentPerSquareFoot: optNum,
+  medianRentPerSquareFoot: optNum,
+  averageDaysOnMarket: optNum,
+  medianDaysOnMarket: optNum,
+  newListings: optNum,
+  totalListings: num,
+};
+
+export const saleTypeRowSchema = z.object({
+  propertyType: z.string(),
+  ...saleStatsShape,
+});
+
+export const rentalTypeRowSchema = z.object({
+  propertyType: z.string(),
+  ...rentalStatsShape,
+});
+
+export const saleBedroomRowSchema = z.object({
+  bedrooms: z.number(),
+  ...saleStatsShape,
+});
+
+export const rentalBedroomRowSchema = z.object({
+  bedrooms: z.number(),
+  ...rentalStatsShape,
+});
+
+export const saleHistoryEntrySchema = z.object({
+  date: z.string(),
+  ...saleStatsShape,
+  dataByPropertyType: z.array(saleTypeRowSchema).nullish(),
+  dataByBedrooms: z.array(saleBedroomRowSchema).nullish(),
+});
+
+export const rentalHistoryEntrySchema = z.object({
+  date: z.string(),
+  ...rentalStatsShape,
+  dataByPropertyType: z.array(rentalTypeRowSchema).nullish(),
+  dataByBedrooms: z.array(rentalBedroomRowSchema).nullish(),
+});
+
+export const saleDataSchema = z.object({
+  lastUpdatedDate: z.string().nullish(),
+  ...saleStatsShape,
+  dataByPropertyType: z.array(saleTypeRowSchema).nullish(),
+  dataByBedrooms: z.array(saleBedroomRowSchema).nullish(),
+  history: z.record(z.string(), saleHistoryEntrySchema).nullish(),
+});
+
+export const rentalDataSchema = z.object({
+  lastUpdatedDate: z.string().nullish(),
+  ...rentalStatsShape,
+  dataByPropertyType: z.array(rentalTypeRowSchema).nullish(),
+  dataByBedrooms: z.array(rentalBedroomRowSchema).nullish(),
+  history: z.record(z.string(), rentalHistoryEntrySchema).nullish(),
+});
+
+export const marketDataResponseSchema = z
+  .object({
+    id: z.string(),
+    zipCode: z.string().nullish(),
+    saleData: saleDataSchema.nullish(),
+    rentalData: rentalDataSchema.nullish(),
+  })
+  .refine((data) => data.saleData != null || data.rentalData != null, {
+    message: "Expected saleData or rentalData",
+  });
+
+// /v1/listings/sale and /v1/listings/rental/long-term (price is rent for rentals)
+export const listingSchema = z.object({
+  id: z.string(),
+  formattedAddress: z.string().nullish(),
+  zipCode: z.string().nullish(),
+  propertyType: z.string().nullish(),
+  bedrooms: optNum,
+  bathrooms: optNum,
+  squareFootage: optNum,
+  price: num,
+  status: z.string().nullish(),
+  listedDate: z.string().nullish(),
+  daysOnMarket: optNum,
+});
+
+export const listingsResponseSchema = z.array(listingSchema);
+
+// /v1/avm/rent/long-term and /v1/avm/value
+export const comparableSchema = z.object({
+  id: z.string(),
+  formattedAddress: z.string().nullish(),
+  propertyType: z.string().nullish(),
+  bedrooms: optNum,
+  bathrooms: optNum,
+  squareFootage: optNum,
+  price: optNum,
+  listedDate: z.string().nullish(),
+  daysOnMarket: optNum,
+  distance: optNum,
+  correlation: optNum,
+});
+
+export const rentEstimateSchema = z.object({
+  rent: num,
+  rentRangeLow: optNum,
+  rentRangeHigh: optNum,
+  comparables: z.array(comparableSchema).nullish(),
+});
+
+export const valueEstimateSchema = z.object({
+  price: num,
+  priceRangeLow: optNum,
+  priceRangeHigh: optNum,
+  comparables: z.array(comparableSchema).nullish(),
+});
+
+export type SaleTypeRow = z.infer<typeof saleTypeRowSchema>;
+export type RentalTypeRow = z.infer<typeof rentalTypeRowSchema>;
+export type SaleData = z.infer<typeof saleDataSchema>;
+export type RentalData = z.infer<typeof rentalDataSchema>;
+export type MarketDataResponse = z.infer<typeof marketDataResponseSchema>;
+export type RentCastListing = z.infer<typeof listingSchema>;
+export type RentCastComparable = z.infer<typeof comparableSchema>;
+export type RentCastRentEstimate = z.infer<typeof rentEstimateSchema>;
+export type RentCastValueEstimate = z.infer<typeof valueEstimateSchema>;
+
+export class RentCastSchemaError extends Error {
+  readonly code = "RENTCAST_SCHEMA_MISMATCH";
+
+  constructor(
+    readonly path: string,
+    readonly issues: z.core.$ZodIssue[]
+  ) {
+    super(
+      `[RentCast] Response from ${path} did not match the expected schema: ${z.prettifyError(
+        new z.ZodError(issues)
+      )}`
+    );
+    this.name = "RentCastSchemaError";
+  }
+}
+
+// Parse a payload against a schema, or throw RentCastSchemaError
+export function parseRentCastResponse<T extends z.ZodType>(
+  schema: T,
+  path: string,
+  raw: unknown
+): z.infer<T> {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw new RentCastSchemaError(path, parsed.error.issues);
+  }
+  return parsed.data;
+}
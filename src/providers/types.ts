@@ -0,0 +1,70 @@
+// src/providers/types.ts
+import type { KpiConfidence } from "@/domain/confidence";
+
+// Property type buckets we keep breakdowns for (provider types map onto these)
+export const PROPERTY_TYPE_BUCKETS = [
+  "sfh",
+  "condo",
+  "townhouse",
+  "2to4",
+  "5plus",
+  "manufactured",
+] as const;
+
+export type PropertyTypeBucket = (typeof PROPERTY_TYPE_BUCKETS)[number];
+
+export type Dimensions = { propertyType?: PropertyTypeBucket };
+
+// Snapshot.propertyType: the slice a stored row describes. Provider and
+// index payloads cover the whole market (per-type numbers live in
+// sourceMeta.perType), so every row today is "all"; Dimensions only
+// shape the provider call.
+export type SnapshotPropertyType = "all" | PropertyTypeBucket;
+
+export type ProviderSnapshot = {
+  asOf: Date;
+  dimensions: Dimensions;
+  kpis: {
+    medianPrice: number | null;
+    medianRent: number | null;
+    ppsf: number | null;
+    dom: number | null;
+    confidence: number | null;
+  };
+  series: {
+    date: string;
+    medianPrice: number | null;
+    medianRent: number | null;
+  }[];
+  sourceMeta?: any; // per-type / per-bedroom breakdowns, provider info, etc.
+  // Archived provider response this was built from (see lib/rawPayloads.ts)
+  rawPayloadId?: number | null;
+};
+
+// One slice of a snapshot (a property type or bedroom count)
+export type BreakdownPayload = {
+  kpis: ProviderSnapshot["kpis"];
+  series: ProviderSnapshot["series"];
+  confidence?: KpiConfidence;
+};
+
+export const MARKET_DATA_PROVIDER_IDS = ["rentcast", "fixture"] as const;
+
+export type MarketDataProviderId = (typeof MARKET_DATA_PROVIDER_IDS)[number];
+
+// Free index datasets imported from files (not live providers). Their
+// snapshots sit next to provider snapshots, told apart by Snapshot.source.
+export const INDEX_SOURCES = ["zillow", "redfin"] as const;
+
+export type IndexSource = (typeof INDEX_SOURCES)[number];
+
+export type SnapshotSource = MarketDataProviderId | IndexSource;
+
+export type MarketDataProvider = {
+  id: MarketDataProviderId;
+  // Metered providers count against their call budget (lib/budget.ts)
+  metered: boolean;
+  // Endpoint fetchAggregate calls, recorded on budget ledger entries
+  aggregateRoute: string;
+  fetchAggregate(marketId: string, dims: Dimensions): Promise<ProviderSnapshot>;
+};
@@ -0,0 +1,177 @@
+// src/providers/zillow.ts
+import { readDelimitedRows } from "@/lib/csv";
+import type { ProviderSnapshot } from "@/providers/types";
+
+/**
+ * Zillow Research publishes ZIP-level indexes as wide CSVs:
+ *   RegionID,SizeRank,RegionName,RegionType,StateName,State,City,Metro,CountyName,2000-01-31,...
+ * one row per ZIP (RegionName), one column per month-end date.
+ *
+ *  - ZHVI: typical home value (35th–65th percentile), smoothed + seasonally adjusted
+ *  - ZORI: typical observed market rent, smoothed
+ */
+export type ZillowIndex = "zhvi" | "zori";
+
+export type ZillowRegion = {
+  zip: string;
+  regionId: string;
+  city: string | null;
+  state: string | null;
+  metro: string | null;
+  county: string | null;
+  // "YYYY-MM" -> index value
+  values: Map<string, number>;
+};
+
+const DATE_COLUMN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function zipToMarketId(zip: string) {
+  return `zip:${zip}`;
+}
+
+/**
+ * Stream a ZHVI/ZORI CSV and keep the ZIP rows we care about
+ * (all ZIP rows when `zips` is omitted).
+ */
+export async function readZillowIndexFile(
+  filePath: string,
+  zips?: Set<string>
+): Promise<Map<string, ZillowRegion>> {
+  const regions = new Map<string, ZillowRegion>();
+
+  let header: string[] | null = null;
+  let col: Record<string, number> = {};
+  let dateColumns: { index: number; month: string }[] = [];
+
+  // Skip rows that can't mention a wanted ZIP before splitting ~300 columns
+  // (matched without leading zeros, which exports sometimes drop)
+  const needles = zips ? [...zips].map((zip) => zip.replace(/^0+/, "")) : null;
+  const lineFilter = needles
+    ? (line: string) => needles.some((needle) => line.includes(needle))
+    : undefined;
+
+  for await (const row of readDelimitedRows(filePath, { lineFilter })) {
+    if (!header) {
+      header = row;
+      col = Object.fromEntries(header.map((name, i) => [name, i]));
+
+      if (col.RegionName == null) {
+        throw new Error(
+          `[Zillow] ${filePath} has no RegionName column; is this a Zillow index CSV?`
+        );
+      }
+
+      dateColumns = header.flatMap((name, index) =>
+        DATE_COLUMN.test(name) ? [{ index, month: name.slice(0, 7) }] : []
+      );
+      continue;
+    }
+
+    const regionType = col.RegionType != null ? row[col.RegionType] : "zip";
+    if (regionType.toLowerCase() !== "zip") continue;
+
+    // Spreadsheet round-trips drop leading zeros (02134 -> 2134)
+    const zip = row[col.RegionName].padStart(5, "0");
+    if (zips && !zips.has(zip)) continue;
+
+    const values = new Map<string, number>();
+    for (const { index, month } of dateColumns) {
+      const raw = row[index];
+      if (!raw) continue;
+      const value = Number(raw);
+      if (Number.isFinite(value)) values.set(month, value);
+    }
+
+    const text = (name: string) =>
+      col[name] != null && row[col[name]] ? row[col[name]] : null;
+
+    regions.set(zip, {
+      zip,
+      regionId: row[col.RegionID] ?? "",
+      city: text("City"),
+      state: text("State"),
+      metro: text("Metro"),
+      county: text("CountyName"),
+      values,
+    });
+  }
+
+  return regions;
+}
+
+function latestMonth(values?: Map<string, number>): string | null {
+  if (!values || values.size === 0) return null;
+  return [...values.keys()].sort().at(-1) ?? null;
+}
+
+// Zillow labels months by their last day; store them as the 1st like RentCast
+function monthStart(month: string) {
+  return `${month}-01T00:00:00.000Z`;
+}
+
+function monthEnd(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(y, m, 0));
+}
+
+/**
+ * Snapshot for one ZIP from its ZHVI and/or ZORI rows. medianPrice/medianRent
+ * carry the index values (typical, not median); ppsf and DOM aren't published.
+ */
+export function buildZillowSnapshot(
+  zhvi: ZillowRegion | undefined,
+  zori: ZillowRegion | undefined,
+  files: Partial<Record<ZillowIndex, string>>
+): ProviderSnapshot {
+  const priceMonth = latestMonth(zhvi?.values);
+  const rentMonth = latestMonth(zori?.values);
+  const asOfMonth = [priceMonth, rentMonth].filter(Boolean).sort().at(-1);
+
+  if (!asOfMonth) {
+    throw new Error(
+      `[Zillow] No ZHVI or ZORI values for ZIP ${zhvi?.zip ?? zori?.zip}`
+    );
+  }
+
+  const months = new Set([
+    ...(zhvi?.values.keys() ?? []),
+    ...(zori?.values.keys() ?? []),
+  ]);
+
+  const series = [...months].sort().map((month) => ({
+    date: monthStart(month),
+    medianPrice: zhvi?.values.get(month) ?? null,
+    medianRent: zori?.values.get(month) ?? null,
+  }));
+
+  const region = zhvi ?? zori!;
+
+  return {
+    asOf: monthEnd(asOfMonth),
+    dimensions: {},
+    kpis: {
+      medianPrice: priceMonth ? zhvi!.values.get(priceMonth)! : null,
+      medianRent: rentMonth ? zori!.values.get(rentMonth)! : null,
+      ppsf: null,
+      dom: null,
+      confidence: null,
+    },
+    series,
+    sourceMeta: {
+      provider: "zillow",
+      regionId: region.regionId,
+      zipCode: region.zip,
+      metro: region.metro,
+      county: region.county,
+      // Which month each KPI comes from; ZHVI and ZORI publish on different lags
+      indexes: {
+        zhvi: zhvi
+          ? { file: files.zhvi, month: priceMonth, field: "medianPrice" }
+          : null,
+        zori: zori
+          ? { file: files.zori, month: rentMonth, field: "medianRent" }
+          : null,
+      },
+    },
+  };
+}